@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
@@ -6,6 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -13,7 +15,20 @@ import { z } from "zod";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { UserWithWishlist, AppState } from "@shared/schema";
+import ChangePasswordDialog from "@/components/change-password-dialog";
+import TwoFactorDialog from "@/components/two-factor-dialog";
+import ExclusionsCard from "@/components/exclusions-card";
+import EventSettingsCard from "@/components/event-settings-card";
+import GroupsCard from "@/components/groups-card";
+import InvitesCard from "@/components/invites-card";
+import LockoutsCard from "@/components/lockouts-card";
+import ResetPasswordDialog from "@/components/reset-password-dialog";
+import DrawAuditCard from "@/components/draw-audit-card";
+import ShufflePreviewDialog from "@/components/shuffle-preview-dialog";
+import WishlistItems from "@/components/wishlist-items";
+import { formatMoney, isWayOverBudget } from "@/lib/money";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UserWithWishlist, Event, DrawAudit } from "@shared/schema";
 import {
   Gift,
   UserPlus,
@@ -29,6 +44,10 @@ import {
   RotateCcw,
   Copy,
   Check,
+  CalendarPlus,
+  Trash2,
+  Wallet,
+  AlertTriangle,
 } from "lucide-react";
 import {
   AlertDialog,
@@ -45,43 +64,128 @@ import {
 const createUserSchema = z.object({
   username: z.string().min(3, "Username must be at least 3 characters"),
   password: z.string().min(4, "Password must be at least 4 characters"),
+  group: z.string().max(50, "Group name is too long").optional(),
 });
 
 type CreateUserData = z.infer<typeof createUserSchema>;
 
+const createEventSchema = z.object({
+  name: z.string().trim().min(1, "Event name is required"),
+});
+
+type CreateEventData = z.infer<typeof createEventSchema>;
+
 export default function AdminDashboard() {
   /** ⭐ FIXED — logoutMutation removed */
   const { user, logout } = useAuth();
   const { toast } = useToast();
 
+  const [selectedEventId, setSelectedEventId] = useState<number | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isEventDialogOpen, setIsEventDialogOpen] = useState(false);
   const [copiedUser, setCopiedUser] = useState<string | null>(null);
   const [createdCredentials, setCreatedCredentials] = useState<{ username: string; password: string } | null>(null);
+  const [keepDraw, setKeepDraw] = useState(false);
 
   const form = useForm<CreateUserData>({
     resolver: zodResolver(createUserSchema),
-    defaultValues: { username: "", password: "" },
+    defaultValues: { username: "", password: "", group: "" },
+  });
+
+  const eventForm = useForm<CreateEventData>({
+    resolver: zodResolver(createEventSchema),
+    defaultValues: { name: "" },
   });
 
+  const { data: events = [], isLoading: loadingEvents } = useQuery<Event[]>({
+    queryKey: ["/api/events"],
+  });
+
+  // Fall back to the first event when nothing (or a deleted event) is selected
+  useEffect(() => {
+    if (loadingEvents) return;
+    if (!events.some((e) => e.id === selectedEventId)) {
+      setSelectedEventId(events[0]?.id ?? null);
+    }
+  }, [events, loadingEvents, selectedEventId]);
+
+  const event = events.find((e) => e.id === selectedEventId) ?? null;
+  const eventUrl = `/api/events/${selectedEventId}`;
+
   const { data: participants = [], isLoading: loadingParticipants } = useQuery<UserWithWishlist[]>({
-    queryKey: ["/api/participants"],
+    queryKey: ["/api/events", selectedEventId, "participants"],
+    enabled: selectedEventId !== null,
+  });
+
+  // Only a revealed draw can be kept as a past round when resetting
+  const { data: draws = [] } = useQuery<DrawAudit[]>({
+    queryKey: ["/api/events", selectedEventId, "draws"],
+    enabled: event?.shuffleCompleted === true,
   });
+  const currentDraw = event?.shuffleCompleted ? draws[draws.length - 1] : undefined;
 
-  const { data: appState } = useQuery<AppState>({
-    queryKey: ["/api/app-state"],
+  // Late joiners added after the shuffle, waiting to be spliced in
+  const { data: unmatched = [] } = useQuery<number[]>({
+    queryKey: ["/api/events", selectedEventId, "participants", "unmatched"],
+    enabled: event?.shuffleCompleted === true,
+  });
+
+  const createEventMutation = useMutation({
+    mutationFn: async (data: CreateEventData) => {
+      const res = await apiRequest("POST", "/api/events", data);
+      return (await res.json()) as Event;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      setSelectedEventId(created.id);
+      setIsEventDialogOpen(false);
+      eventForm.reset();
+      toast({
+        title: "Event created",
+        description: `Switched to ${created.name}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteEventMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/events/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Event deleted",
+        description: "The event and its participants have been removed",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to delete event",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
   });
 
   const createUserMutation = useMutation({
     mutationFn: async (data: CreateUserData) => {
-      const res = await apiRequest("POST", "/api/participants", {
+      const res = await apiRequest("POST", `${eventUrl}/participants`, {
         username: data.username,
         password: data.password,
+        group: data.group,
         role: "participant",
       });
       return res.json();
     },
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ["/api/participants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEventId] });
       setCreatedCredentials({ username: variables.username, password: variables.password });
       form.reset();
       toast({
@@ -100,18 +204,21 @@ export default function AdminDashboard() {
 
   const shuffleMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/shuffle");
-      return res.json();
+      // The version lets the server reject double clicks and stale tabs
+      const res = await apiRequest("POST", `${eventUrl}/shuffle`, { version: event?.version });
+      return (await res.json()) as { round: number; commitment: string; relaxed: string[] };
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/app-state"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/participants"] });
+    onSuccess: ({ relaxed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       toast({
         title: "Secret Santa Shuffle Complete!",
-        description: "Everyone has been assigned their gift recipient",
+        description: relaxed.length
+          ? `Everyone has a recipient. To make the draw possible: ${relaxed.join("; ")}`
+          : "Everyone has been assigned their gift recipient",
       });
     },
     onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       toast({
         title: "Shuffle failed",
         description: error.message,
@@ -122,18 +229,21 @@ export default function AdminDashboard() {
 
   const resetMutation = useMutation({
     mutationFn: async () => {
-      const res = await apiRequest("POST", "/api/reset");
+      const res = await apiRequest("POST", `${eventUrl}/reset`, { version: event?.version, keepDraw });
       return res.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/app-state"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/participants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       toast({
         title: "Reset Complete",
-        description: "All assignments have been cleared",
+        description: keepDraw
+          ? "All assignments have been cleared; the next draw will avoid repeating them"
+          : "All assignments have been cleared",
       });
+      setKeepDraw(false);
     },
     onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
       toast({
         title: "Reset failed",
         description: error.message,
@@ -144,10 +254,10 @@ export default function AdminDashboard() {
 
   const deleteParticipantMutation = useMutation({
     mutationFn: async (id: number) => {
-      await apiRequest("DELETE", `/api/participants/${id}`);
+      await apiRequest("DELETE", `${eventUrl}/participants/${id}`);
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/participants"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/events", selectedEventId] });
       toast({
         title: "Participant deleted",
         description: "The participant has been removed",
@@ -162,6 +272,54 @@ export default function AdminDashboard() {
     },
   });
 
+  const withdrawParticipantMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `${eventUrl}/participants/${id}/withdraw`, {
+        version: event?.version,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Participant withdrawn",
+        description: "Their giver now has their recipient; nobody else's assignment changed",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Failed to withdraw participant",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const joinDrawMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `${eventUrl}/participants/${id}/join-draw`, {
+        version: event?.version,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Added to the draw",
+        description: "One giver now has them as their recipient; nobody else's assignment changed",
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Failed to add to the draw",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleCreateUser = (data: CreateUserData) => {
     createUserMutation.mutate(data);
   };
@@ -178,7 +336,8 @@ export default function AdminDashboard() {
   };
 
   const completedCount = participants.filter((p) => p.wishlistCompleted).length;
-  const shuffleReady = participants.length >= 3 && completedCount === participants.length;
+  const minParticipants = Math.max(3, (event?.giftsPerPerson ?? 1) + 1);
+  const shuffleReady = participants.length >= minParticipants && completedCount === participants.length;
 
   const getStatusBadge = (participant: UserWithWishlist) => {
     if (participant.wishlistCompleted) {
@@ -189,7 +348,7 @@ export default function AdminDashboard() {
         </Badge>
       );
     }
-    if (participant.wishlist) {
+    if (participant.wishlist.length > 0) {
       return (
         <Badge variant="default" className="bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20">
           <Clock className="w-3 h-3 mr-1" />
@@ -224,6 +383,8 @@ export default function AdminDashboard() {
             {/* ⭐ FIXED — logout uses logout() NOT logoutMutation */}
             <div className="flex items-center gap-2">
               <ThemeToggle />
+              <ChangePasswordDialog />
+              <TwoFactorDialog />
               <Button
                 variant="ghost"
                 size="icon"
@@ -240,204 +401,101 @@ export default function AdminDashboard() {
       {/* MAIN CONTENT */}
       <main className="container mx-auto px-6 py-8">
 
-        {/* STATS CARDS */}
-        <div className="grid gap-4 md:grid-cols-3 mb-8">
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Total Participants</CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{participants.length}</div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Wishlists Complete</CardTitle>
-              <ClipboardList className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                {completedCount} / {participants.length}
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card>
-            <CardHeader className="flex flex-row items-center justify-between pb-2">
-              <CardTitle className="text-sm font-medium text-muted-foreground">Shuffle Status</CardTitle>
-              <Sparkles className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              {appState?.shuffleCompleted ? (
-                <Badge className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
-                  <CheckCircle className="w-3 h-3 mr-1" /> Completed
-                </Badge>
-              ) : (
-                <Badge variant="secondary">
-                  <Clock className="w-3 h-3 mr-1" /> Pending
-                </Badge>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+        {/* EVENT SWITCHER */}
+        <div className="flex flex-wrap items-center gap-3 mb-8">
+          <Select
+            value={selectedEventId !== null ? String(selectedEventId) : undefined}
+            onValueChange={(v) => setSelectedEventId(Number(v))}
+            disabled={events.length === 0}
+          >
+            <SelectTrigger className="w-64" data-testid="select-event">
+              <SelectValue placeholder={loadingEvents ? "Loading events…" : "No events yet"} />
+            </SelectTrigger>
+            <SelectContent>
+              {events.map((e) => (
+                <SelectItem key={e.id} value={String(e.id)}>
+                  {e.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
 
-        {/* ACTION BUTTONS */}
-        <div className="flex flex-wrap gap-3 mb-8">
-          
-          {/* CREATE PARTICIPANT */}
           <Dialog
-            open={isCreateDialogOpen}
+            open={isEventDialogOpen}
             onOpenChange={(open) => {
-              setIsCreateDialogOpen(open);
-              if (!open) {
-                setCreatedCredentials(null);
-                form.reset();
-              }
+              setIsEventDialogOpen(open);
+              if (!open) eventForm.reset();
             }}
           >
             <DialogTrigger asChild>
-              <Button>
-                <UserPlus className="w-4 h-4 mr-2" />
-                Create Participant
+              <Button variant="outline" data-testid="button-new-event">
+                <CalendarPlus className="w-4 h-4 mr-2" />
+                New Event
               </Button>
             </DialogTrigger>
 
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Create New Participant</DialogTitle>
-                <DialogDescription>Create login credentials for a new participant.</DialogDescription>
+                <DialogTitle>Create New Event</DialogTitle>
+                <DialogDescription>
+                  Each event is a separate exchange with its own participants and draw.
+                </DialogDescription>
               </DialogHeader>
 
-              {createdCredentials ? (
-                <div className="space-y-4">
-                  <Card className="bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800">
-                    <CardContent className="pt-6">
-                      <div className="text-center mb-4">
-                        <CheckCircle className="w-12 h-12 text-green-600 dark:text-green-400 mx-auto mb-2" />
-                        <p className="font-medium">Participant Created!</p>
-                      </div>
-
-                      <div className="space-y-2 bg-background rounded-lg p-4">
-                        <p className="text-sm text-muted-foreground">Username</p>
-                        <p className="font-mono">{createdCredentials.username}</p>
-
-                        <p className="text-sm text-muted-foreground mt-3">Password</p>
-                        <p className="font-mono">{createdCredentials.password}</p>
-                      </div>
-
-                      <Button
-                        className="w-full mt-4"
-                        variant="outline"
-                        onClick={() =>
-                          handleCopyCredentials(
-                            createdCredentials.username,
-                            createdCredentials.password
-                          )
-                        }
-                      >
-                        {copiedUser === createdCredentials.username ? (
-                          <>
-                            <Check className="w-4 h-4 mr-2" /> Copied!
-                          </>
-                        ) : (
-                          <>
-                            <Copy className="w-4 h-4 mr-2" /> Copy Credentials
-                          </>
-                        )}
-                      </Button>
-                    </CardContent>
-                  </Card>
+              <Form {...eventForm}>
+                <form
+                  onSubmit={eventForm.handleSubmit((data) => createEventMutation.mutate(data))}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={eventForm.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Event Name</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Office Secret Santa" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
 
-                  <Button className="w-full" onClick={() => setCreatedCredentials(null)}>
-                    Create Another
+                  <Button className="w-full" type="submit" disabled={createEventMutation.isPending}>
+                    {createEventMutation.isPending && (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    Create Event
                   </Button>
-                </div>
-              ) : (
-                <Form {...form}>
-                  <form onSubmit={form.handleSubmit(handleCreateUser)} className="space-y-4">
-                    <FormField
-                      control={form.control}
-                      name="username"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Username</FormLabel>
-                          <FormControl>
-                            <Input placeholder="john_doe" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <FormField
-                      control={form.control}
-                      name="password"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Password</FormLabel>
-                          <FormControl>
-                            <Input placeholder="simple password" {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-
-                    <Button className="w-full" type="submit" disabled={createUserMutation.isPending}>
-                      {createUserMutation.isPending && (
-                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      )}
-                      Create Participant
-                    </Button>
-                  </form>
-                </Form>
-              )}
+                </form>
+              </Form>
             </DialogContent>
           </Dialog>
 
-          {/* SHUFFLE BUTTON */}
-          <Button
-            disabled={!shuffleReady || appState?.shuffleCompleted || shuffleMutation.isPending}
-            onClick={() => shuffleMutation.mutate()}
-          >
-            {shuffleMutation.isPending ? (
-              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-            ) : (
-              <Shuffle className="w-4 h-4 mr-2" />
-            )}
-            Shuffle Secret Santa
-          </Button>
-
-          {/* RESET SHUFFLE */}
-          {appState?.shuffleCompleted && (
+          {event && (
             <AlertDialog>
               <AlertDialogTrigger asChild>
-                <Button variant="outline">
-                  <RotateCcw className="w-4 h-4 mr-2" />
-                  Reset Shuffle
+                <Button variant="ghost" className="text-destructive" data-testid="button-delete-event">
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Event
                 </Button>
               </AlertDialogTrigger>
 
               <AlertDialogContent>
                 <AlertDialogHeader>
-                  <AlertDialogTitle>Reset Shuffle?</AlertDialogTitle>
+                  <AlertDialogTitle>Delete {event.name}?</AlertDialogTitle>
                   <AlertDialogDescription>
-                    This will clear all assignments. Participants must wait for a new shuffle.
+                    This permanently removes the event with all of its participants, wishlists and assignments.
                   </AlertDialogDescription>
                 </AlertDialogHeader>
 
                 <AlertDialogFooter>
                   <AlertDialogCancel>Cancel</AlertDialogCancel>
                   <AlertDialogAction
-                    onClick={() => resetMutation.mutate()}
                     className="bg-destructive text-destructive-foreground"
+                    onClick={() => deleteEventMutation.mutate(event.id)}
                   >
-                    {resetMutation.isPending && (
-                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    )}
-                    Reset
+                    Delete
                   </AlertDialogAction>
                 </AlertDialogFooter>
               </AlertDialogContent>
@@ -445,102 +503,411 @@ export default function AdminDashboard() {
           )}
         </div>
 
-        {/* PARTICIPANTS LIST */}
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Users className="w-5 h-5" /> Participants
-            </CardTitle>
-            <CardDescription>Manage participants and their wishlist progress</CardDescription>
-          </CardHeader>
-
-          <CardContent>
-            {loadingParticipants ? (
-              <div className="flex items-center justify-center py-12">
-                <Loader2 className="w-8 h-8 animate-spin" />
-              </div>
-            ) : participants.length === 0 ? (
-              <div className="text-center py-12">
-                <Users className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
-                <p className="text-muted-foreground">No participants added yet.</p>
-              </div>
-            ) : (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {participants.map((p) => (
-                  <Card key={p.id} className="bg-muted/30">
-                    <CardContent className="pt-6">
-                      <div className="flex justify-between mb-4">
-                        <div className="flex items-center gap-3">
-                          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
-                            <span className="text-primary text-lg font-semibold">
-                              {p.username.charAt(0).toUpperCase()}
-                            </span>
+        {!event ? (
+          <Card>
+            <CardContent className="text-center py-12">
+              <CalendarPlus className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                {loadingEvents ? "Loading events…" : "Create an event to start adding participants."}
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {/* STATS CARDS */}
+            <div className="grid gap-4 md:grid-cols-4 mb-8">
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Total Participants</CardTitle>
+                  <Users className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">{participants.length}</div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Wishlists Complete</CardTitle>
+                  <ClipboardList className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold text-green-600 dark:text-green-400">
+                    {completedCount} / {participants.length}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Budget per Gift</CardTitle>
+                  <Wallet className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {event?.budgetCents != null ? formatMoney(event.budgetCents, event.currency) : "No limit"}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="flex flex-row items-center justify-between pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">Shuffle Status</CardTitle>
+                  <Sparkles className="h-4 w-4 text-muted-foreground" />
+                </CardHeader>
+                <CardContent>
+                  {event?.shuffleCompleted ? (
+                    <Badge className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
+                      <CheckCircle className="w-3 h-3 mr-1" /> Completed
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      <Clock className="w-3 h-3 mr-1" /> Pending
+                    </Badge>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* ACTION BUTTONS */}
+            <div className="flex flex-wrap gap-3 mb-8">
+          
+              {/* CREATE PARTICIPANT */}
+              <Dialog
+                open={isCreateDialogOpen}
+                onOpenChange={(open) => {
+                  setIsCreateDialogOpen(open);
+                  if (!open) {
+                    setCreatedCredentials(null);
+                    form.reset();
+                  }
+                }}
+              >
+                <DialogTrigger asChild>
+                  <Button>
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    Create Participant
+                  </Button>
+                </DialogTrigger>
+
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>Create New Participant</DialogTitle>
+                    <DialogDescription>Create login credentials for a new participant.</DialogDescription>
+                  </DialogHeader>
+
+                  {createdCredentials ? (
+                    <div className="space-y-4">
+                      <Card className="bg-green-50 dark:bg-green-950/20 border-green-200 dark:border-green-800">
+                        <CardContent className="pt-6">
+                          <div className="text-center mb-4">
+                            <CheckCircle className="w-12 h-12 text-green-600 dark:text-green-400 mx-auto mb-2" />
+                            <p className="font-medium">Participant Created!</p>
                           </div>
-                          <div>
-                            <p className="font-medium">{p.username}</p>
-                            {getStatusBadge(p)}
+
+                          <div className="space-y-2 bg-background rounded-lg p-4">
+                            <p className="text-sm text-muted-foreground">Username</p>
+                            <p className="font-mono">{createdCredentials.username}</p>
+
+                            <p className="text-sm text-muted-foreground mt-3">Password</p>
+                            <p className="font-mono">{createdCredentials.password}</p>
                           </div>
-                        </div>
-                      </div>
 
-                      {p.wishlist && (
-                        <ul className="text-sm space-y-1 mb-4">
-                          {p.wishlist.item1 && (
-                            <li className="flex items-center gap-2">
-                              <Gift className="w-3 h-3 text-primary" />
-                              {p.wishlist.item1}
-                            </li>
+                          <Button
+                            className="w-full mt-4"
+                            variant="outline"
+                            onClick={() =>
+                              handleCopyCredentials(
+                                createdCredentials.username,
+                                createdCredentials.password
+                              )
+                            }
+                          >
+                            {copiedUser === createdCredentials.username ? (
+                              <>
+                                <Check className="w-4 h-4 mr-2" /> Copied!
+                              </>
+                            ) : (
+                              <>
+                                <Copy className="w-4 h-4 mr-2" /> Copy Credentials
+                              </>
+                            )}
+                          </Button>
+                        </CardContent>
+                      </Card>
+
+                      <Button className="w-full" onClick={() => setCreatedCredentials(null)}>
+                        Create Another
+                      </Button>
+                    </div>
+                  ) : (
+                    <Form {...form}>
+                      <form onSubmit={form.handleSubmit(handleCreateUser)} className="space-y-4">
+                        <FormField
+                          control={form.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input placeholder="john_doe" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
                           )}
-                          {p.wishlist.item2 && (
-                            <li className="flex items-center gap-2">
-                              <Gift className="w-3 h-3 text-primary" />
-                              {p.wishlist.item2}
-                            </li>
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input placeholder="simple password" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
                           )}
-                          {p.wishlist.item3 && (
-                            <li className="flex items-center gap-2">
-                              <Gift className="w-3 h-3 text-primary" />
-                              {p.wishlist.item3}
-                            </li>
+                        />
+
+                        <FormField
+                          control={form.control}
+                          name="group"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Group (optional)</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Marketing" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
                           )}
-                        </ul>
-                      )}
-
-                      {/* DELETE */}
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="ghost" size="sm" className="text-destructive">
-                            Remove
-                          </Button>
-                        </AlertDialogTrigger>
-
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>Delete {p.username}?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              This permanently removes the participant and their wishlist.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancel</AlertDialogCancel>
-                            <AlertDialogAction
-                              className="bg-destructive text-destructive-foreground"
-                              onClick={() => deleteParticipantMutation.mutate(p.id)}
-                            >
-                              Remove
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
-                    </CardContent>
-                  </Card>
-                ))}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                        />
+
+                        <Button className="w-full" type="submit" disabled={createUserMutation.isPending}>
+                          {createUserMutation.isPending && (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                          )}
+                          Create Participant
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
+                </DialogContent>
+              </Dialog>
+
+              {/* SHUFFLE BUTTON */}
+              <Button
+                disabled={!shuffleReady || event?.shuffleCompleted || shuffleMutation.isPending}
+                onClick={() => shuffleMutation.mutate()}
+              >
+                {shuffleMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Shuffle className="w-4 h-4 mr-2" />
+                )}
+                Shuffle Secret Santa
+              </Button>
+
+              {/* DRY RUN */}
+              <ShufflePreviewDialog eventId={event.id} disabled={event.shuffleCompleted} />
+
+              {/* RESET SHUFFLE */}
+              {event?.shuffleCompleted && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline">
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Reset Shuffle
+                    </Button>
+                  </AlertDialogTrigger>
+
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Reset Shuffle?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        This will clear all assignments. Participants must wait for a new shuffle.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+
+                    {/* Unchecked, the draw is discarded and its pairs may come up again */}
+                    {currentDraw?.revealedAt && (
+                      <div className="flex items-start gap-2">
+                        <Checkbox
+                          id="reset-keep-draw"
+                          checked={keepDraw}
+                          onCheckedChange={(v) => setKeepDraw(v === true)}
+                          data-testid="checkbox-keep-draw"
+                        />
+                        <Label htmlFor="reset-keep-draw" className="font-normal leading-snug">
+                          Keep round {currentDraw.round} as a past round, so later draws avoid
+                          repeating its pairs (e.g. when starting next year's exchange)
+                        </Label>
+                      </div>
+                    )}
+
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        onClick={() => resetMutation.mutate()}
+                        className="bg-destructive text-destructive-foreground"
+                      >
+                        {resetMutation.isPending && (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        )}
+                        Reset
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </div>
 
+            {/* DRAW SETTINGS */}
+            <EventSettingsCard event={event} />
+
+            {/* DRAW AUDIT */}
+            <DrawAuditCard event={event} />
+
+            {/* GROUPS */}
+            <GroupsCard event={event} participants={participants} />
+
+            {/* INVITES */}
+            <InvitesCard event={event} />
+
+            {/* EXCLUSIONS */}
+            <ExclusionsCard
+              eventId={event.id}
+              participants={participants}
+              locked={event.shuffleCompleted}
+            />
+
+            {/* PARTICIPANTS LIST */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Users className="w-5 h-5" /> Participants
+                </CardTitle>
+                <CardDescription>Manage participants and their wishlist progress</CardDescription>
+              </CardHeader>
+
+              <CardContent>
+                {loadingParticipants ? (
+                  <div className="flex items-center justify-center py-12">
+                    <Loader2 className="w-8 h-8 animate-spin" />
+                  </div>
+                ) : participants.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Users className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                    <p className="text-muted-foreground">No participants added yet.</p>
+                  </div>
+                ) : (
+                  <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                    {participants.map((p) => {
+                      const inDraw = event.shuffleCompleted && !unmatched.includes(p.id);
+                      return (
+                        <Card key={p.id} className="bg-muted/30">
+                          <CardContent className="pt-6">
+                            <div className="flex justify-between mb-4">
+                              <div className="flex items-center gap-3">
+                                <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                                  <span className="text-primary text-lg font-semibold">
+                                    {p.username.charAt(0).toUpperCase()}
+                                  </span>
+                                </div>
+                                <div>
+                                  <p className="font-medium">{p.username}</p>
+                                  <div className="flex flex-wrap gap-1">
+                                    {getStatusBadge(p)}
+                                    {p.group && <Badge variant="outline">{p.group}</Badge>}
+                                    {p.wishlist.some((item) => isWayOverBudget(item.priceCents, event.budgetCents)) && (
+                                      <Badge className="bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20">
+                                        <AlertTriangle className="w-3 h-3 mr-1" />
+                                        Over budget
+                                      </Badge>
+                                    )}
+                                    {event.shuffleCompleted && !inDraw && (
+                                      <Badge variant="outline">Not in draw</Badge>
+                                    )}
+                                  </div>
+                                </div>
+                              </div>
+                            </div>
+
+                            {p.wishlist.length > 0 && (
+                              <div className="mb-4">
+                                <WishlistItems
+                                  items={p.wishlist}
+                                  currency={event.currency}
+                                  budgetCents={event.budgetCents}
+                                />
+                              </div>
+                            )}
+
+                            {event.shuffleCompleted && !inDraw && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                className="mr-2"
+                                disabled={!p.wishlistCompleted || joinDrawMutation.isPending}
+                                onClick={() => joinDrawMutation.mutate(p.id)}
+                                data-testid={`button-join-draw-${p.id}`}
+                              >
+                                Add to draw
+                              </Button>
+                            )}
+
+                            <ResetPasswordDialog eventId={event.id} participant={p} />
+
+                            {/* DELETE — once in the draw, withdraw so the cycle is repaired */}
+                            <AlertDialog>
+                              <AlertDialogTrigger asChild>
+                                <Button variant="ghost" size="sm" className="text-destructive">
+                                  {inDraw ? "Withdraw" : "Remove"}
+                                </Button>
+                              </AlertDialogTrigger>
+
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>
+                                    {inDraw ? "Withdraw" : "Delete"} {p.username}?
+                                  </AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    This permanently removes the participant and their wishlist.
+                                    {inDraw &&
+                                      " Whoever was giving to them takes over their recipient; every other assignment stays the same."}
+                                  </AlertDialogDescription>
+                                </AlertDialogHeader>
+
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    className="bg-destructive text-destructive-foreground"
+                                    onClick={() =>
+                                      inDraw
+                                        ? withdrawParticipantMutation.mutate(p.id)
+                                        : deleteParticipantMutation.mutate(p.id)
+                                    }
+                                  >
+                                    {inDraw ? "Withdraw" : "Remove"}
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+
+        {/* SIGN-IN LOCKOUTS */}
+        <LockoutsCard />
       </main>
     </div>
   );
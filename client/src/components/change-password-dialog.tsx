@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { changePasswordSchema } from "@shared/schema";
+import { KeyRound, Loader2 } from "lucide-react";
+
+const formSchema = changePasswordSchema
+  .extend({ confirmPassword: z.string() })
+  .refine((d) => d.newPassword === d.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ChangePasswordData = z.infer<typeof formSchema>;
+
+const emptyForm = { currentPassword: "", newPassword: "", confirmPassword: "" };
+
+export default function ChangePasswordDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+
+  const form = useForm<ChangePasswordData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: emptyForm,
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async ({ currentPassword, newPassword }: ChangePasswordData) => {
+      await apiRequest("POST", "/api/me/password", { currentPassword, newPassword });
+    },
+    onSuccess: () => {
+      setOpen(false);
+      form.reset(emptyForm);
+      toast({
+        title: "Password changed",
+        description: "Any other devices you were signed in on have been signed out.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't change password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) form.reset(emptyForm);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Change password" data-testid="button-change-password">
+          <KeyRound className="w-5 h-5" />
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Change password</DialogTitle>
+          <DialogDescription>
+            You'll stay signed in here; other devices will need the new password.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => changeMutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-current-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm new password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-confirm-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" className="w-full" disabled={changeMutation.isPending} data-testid="button-save-password">
+              {changeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change password
+            </Button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
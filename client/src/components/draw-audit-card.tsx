@@ -0,0 +1,147 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { DrawAudit, Event } from "@shared/schema";
+import { ShieldCheck, Eye, Loader2, CheckCircle, Clock } from "lucide-react";
+
+type VerifyResult = { round: number; reproduced: boolean; commitmentValid: boolean };
+
+const short = (hash: string) => `${hash.slice(0, 12)}…`;
+
+export default function DrawAuditCard({ event }: { event: Event }) {
+  const { toast } = useToast();
+
+  const { data: draws = [] } = useQuery<DrawAudit[]>({
+    queryKey: ["/api/events", event.id, "draws"],
+  });
+
+  const current = event.shuffleCompleted ? draws[draws.length - 1] : undefined;
+
+  const revealMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/reveal`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id] });
+      toast({
+        title: "Draw revealed",
+        description: "The assignments matched the published commitment",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reveal failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (round: number) => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/draws/${round}/verify`);
+      return (await res.json()) as VerifyResult;
+    },
+    onSuccess: ({ round, reproduced, commitmentValid }) => {
+      const ok = reproduced && commitmentValid;
+      toast({
+        title: ok ? `Round ${round} verified` : `Round ${round} does not verify`,
+        description: ok
+          ? "Re-running the seed reproduced the archived pairs and commitment"
+          : `Reproduced: ${reproduced ? "yes" : "no"}, commitment valid: ${commitmentValid ? "yes" : "no"}`,
+        variant: ok ? undefined : "destructive",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Verification failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (draws.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" /> Draw Audit
+        </CardTitle>
+        <CardDescription>
+          Every shuffle is seeded and committed; re-run any round to verify it
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {current && !current.revealedAt && (
+          <div className="flex flex-wrap items-center justify-between gap-3 rounded-md border border-amber-500/20 bg-amber-500/10 p-3">
+            <p className="text-sm">
+              Round {current.round} is committed as{" "}
+              <span className="font-mono">{short(current.commitment)}</span> and not yet visible to participants.
+            </p>
+            <Button
+              size="sm"
+              disabled={revealMutation.isPending}
+              onClick={() => revealMutation.mutate()}
+              data-testid="button-reveal"
+            >
+              {revealMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Eye className="w-4 h-4 mr-2" />
+              )}
+              Reveal
+            </Button>
+          </div>
+        )}
+
+        <ul className="space-y-2">
+          {[...draws].reverse().map((d) => (
+            <li
+              key={d.id}
+              className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/30 px-3 py-2 text-sm"
+            >
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">Round {d.round}</span>
+                  {d.discardedAt || (!d.revealedAt && d.id !== current?.id) ? (
+                    <Badge variant="secondary">Discarded</Badge>
+                  ) : d.revealedAt ? (
+                    <Badge className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20">
+                      <CheckCircle className="w-3 h-3 mr-1" /> Revealed
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      <Clock className="w-3 h-3 mr-1" /> Committed
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(d.createdAt).toLocaleString()} · commitment{" "}
+                  <span className="font-mono">{short(d.commitment)}</span> · seed{" "}
+                  {d.seed ? <span className="font-mono">{short(d.seed)}</span> : "sealed until reveal"}
+                </p>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={verifyMutation.isPending}
+                onClick={() => verifyMutation.mutate(d.round)}
+                data-testid={`button-verify-round-${d.round}`}
+              >
+                Verify
+              </Button>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,260 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { parseMoney, toMoneyInput } from "@/lib/money";
+import { Event, GROUP_POLICIES, UserWithWishlist } from "@shared/schema";
+import { Settings, Loader2 } from "lucide-react";
+
+const settingsSchema = z.object({
+  avoidRepeatRounds: z.coerce.number().int().min(0, "Must be 0 or more").max(10, "At most 10 rounds"),
+  commitReveal: z.boolean(),
+  giftsPerPerson: z.coerce.number().int().min(1, "At least 1 gift").max(5, "At most 5 gifts"),
+  groupPolicy: z.enum(GROUP_POLICIES),
+  wishlistMinItems: z.coerce.number().int().min(0, "Must be 0 or more").max(50, "At most 50 items"),
+  wishlistMaxItems: z.coerce.number().int().min(1, "At least 1 item").max(50, "At most 50 items"),
+  budget: z.string().trim(), // major units; blank for no limit
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine((code) => Intl.supportedValuesOf("currency").includes(code), "Use an ISO code like USD or EUR"),
+}).refine((s) => s.wishlistMinItems <= s.wishlistMaxItems, {
+  message: "Can't be more than the maximum",
+  path: ["wishlistMinItems"],
+}).refine((s) => s.budget === "" || parseMoney(s.budget, s.currency) !== null, {
+  message: "Use a plain number like 25 or 19.99",
+  path: ["budget"],
+});
+
+type SettingsFormData = z.infer<typeof settingsSchema>;
+
+const toFormValues = (event: Event): SettingsFormData => ({
+  avoidRepeatRounds: event.avoidRepeatRounds,
+  commitReveal: event.commitReveal,
+  giftsPerPerson: event.giftsPerPerson,
+  groupPolicy: event.groupPolicy,
+  wishlistMinItems: event.wishlistMinItems,
+  wishlistMaxItems: event.wishlistMaxItems,
+  budget: event.budgetCents === null ? "" : toMoneyInput(event.budgetCents, event.currency),
+  currency: event.currency,
+});
+
+export default function EventSettingsCard({ event }: { event: Event }) {
+  const { toast } = useToast();
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsSchema),
+    defaultValues: toFormValues(event),
+  });
+
+  // Prices can't be converted, so the currency is fixed once any are entered
+  const { data: participants = [] } = useQuery<UserWithWishlist[]>({
+    queryKey: ["/api/events", event.id, "participants"],
+  });
+  const hasPrices = participants.some((p) => p.wishlist.some((item) => item.priceCents !== null));
+
+  useEffect(() => {
+    form.reset(toFormValues(event));
+  }, [event, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ budget, ...data }: SettingsFormData) => {
+      const res = await apiRequest("PATCH", `/api/events/${event.id}`, {
+        ...data,
+        budgetCents: parseMoney(budget, data.currency),
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events"] });
+      toast({
+        title: "Settings saved",
+        description: "They apply from the next shuffle",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings className="w-5 h-5" /> Draw Settings
+        </CardTitle>
+        <CardDescription>How the next shuffle for {event.name} is drawn</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="giftsPerPerson"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Gifts per person</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={5} className="w-32" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Everyone buys for this many different people and gets this many gifts back.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="groupPolicy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Group matching</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger className="w-64" data-testid="select-group-policy">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="any">Any pairing</SelectItem>
+                      <SelectItem value="same">Same group only</SelectItem>
+                      <SelectItem value="different">Different group only</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>
+                    Every participant needs a group unless pairings are open to anyone.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex flex-wrap gap-4">
+              <FormField
+                control={form.control}
+                name="budget"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Budget per gift</FormLabel>
+                    <FormControl>
+                      <Input inputMode="decimal" placeholder="No limit" className="w-32" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input maxLength={3} className="w-24 uppercase" {...field} disabled={hasPrices} />
+                    </FormControl>
+                    {hasPrices && (
+                      <FormDescription>Fixed while wishlists have prices</FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex flex-wrap gap-4">
+              <FormField
+                control={form.control}
+                name="wishlistMinItems"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum wishlist items</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={50} className="w-32" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="wishlistMaxItems"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum wishlist items</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={50} className="w-32" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="avoidRepeatRounds"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Avoid repeat pairings</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} max={10} className="w-32" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Nobody draws someone they had in the last N rounds, if possible. 0 turns this off.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="commitReveal"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div className="space-y-1">
+                    <FormLabel>Commit before reveal</FormLabel>
+                    <FormDescription>
+                      Participants see a hash of the draw first; assignments appear only when you reveal,
+                      and the server checks they still match the hash.
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-settings">
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save Settings
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
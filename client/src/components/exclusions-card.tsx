@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Exclusion, UserWithWishlist } from "@shared/schema";
+import { Ban, ArrowRight, ArrowLeftRight, Loader2, X } from "lucide-react";
+
+type ExclusionsCardProps = {
+  eventId: number;
+  participants: UserWithWishlist[];
+  locked: boolean;
+};
+
+export default function ExclusionsCard({ eventId, participants, locked }: ExclusionsCardProps) {
+  const { toast } = useToast();
+  const [giverId, setGiverId] = useState<string>("");
+  const [receiverId, setReceiverId] = useState<string>("");
+  const [bidirectional, setBidirectional] = useState(true);
+
+  const queryKey = ["/api/events", eventId, "exclusions"];
+  const { data: exclusions = [] } = useQuery<Exclusion[]>({ queryKey });
+
+  const nameOf = (id: number) =>
+    participants.find((p) => p.id === id)?.username ?? `#${id}`;
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/exclusions`, {
+        giverId: Number(giverId),
+        receiverId: Number(receiverId),
+        bidirectional,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      setGiverId("");
+      setReceiverId("");
+      toast({
+        title: "Exclusion added",
+        description: "The next shuffle will respect this rule",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to add exclusion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/events/${eventId}/exclusions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to remove exclusion",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canAdd = giverId !== "" && receiverId !== "" && giverId !== receiverId;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ban className="w-5 h-5" /> Exclusions
+        </CardTitle>
+        <CardDescription>
+          Pairs that must never be matched, such as couples or housemates
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {!locked && (
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={giverId} onValueChange={setGiverId}>
+              <SelectTrigger className="w-44" data-testid="select-exclusion-giver">
+                <SelectValue placeholder="Giver" />
+              </SelectTrigger>
+              <SelectContent>
+                {participants.map((p) => (
+                  <SelectItem key={p.id} value={String(p.id)}>
+                    {p.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <span className="text-sm text-muted-foreground">must not give to</span>
+
+            <Select value={receiverId} onValueChange={setReceiverId}>
+              <SelectTrigger className="w-44" data-testid="select-exclusion-receiver">
+                <SelectValue placeholder="Recipient" />
+              </SelectTrigger>
+              <SelectContent>
+                {participants
+                  .filter((p) => String(p.id) !== giverId)
+                  .map((p) => (
+                    <SelectItem key={p.id} value={String(p.id)}>
+                      {p.username}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="exclusion-bidirectional"
+                checked={bidirectional}
+                onCheckedChange={(v) => setBidirectional(v === true)}
+              />
+              <Label htmlFor="exclusion-bidirectional">Both ways</Label>
+            </div>
+
+            <Button
+              disabled={!canAdd || createMutation.isPending}
+              onClick={() => createMutation.mutate()}
+              data-testid="button-add-exclusion"
+            >
+              {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </div>
+        )}
+
+        {exclusions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No exclusions yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {exclusions.map((e) => (
+              <li
+                key={e.id}
+                className="flex items-center justify-between rounded-md bg-muted/30 px-3 py-2 text-sm"
+              >
+                <span className="flex items-center gap-2">
+                  {nameOf(e.giverId)}
+                  {e.bidirectional ? (
+                    <ArrowLeftRight className="w-4 h-4 text-muted-foreground" />
+                  ) : (
+                    <ArrowRight className="w-4 h-4 text-muted-foreground" />
+                  )}
+                  {nameOf(e.receiverId)}
+                </span>
+                {!locked && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => deleteMutation.mutate(e.id)}
+                    data-testid={`button-remove-exclusion-${e.id}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Event, GroupPolicy, UserWithWishlist } from "@shared/schema";
+import { Network, Loader2 } from "lucide-react";
+
+const policyText: Record<GroupPolicy, string> = {
+  any: "Anyone can draw anyone, whatever their group",
+  same: "Everyone draws someone from their own group",
+  different: "Everyone draws someone from a different group",
+};
+
+type GroupsCardProps = {
+  event: Event;
+  participants: UserWithWishlist[];
+};
+
+export default function GroupsCard({ event, participants }: GroupsCardProps) {
+  const { toast } = useToast();
+  const [userId, setUserId] = useState<string>("");
+  const [group, setGroup] = useState("");
+
+  // Group names alphabetically, with "" (no group) last
+  const groupNames = Array.from(new Set(participants.map((p) => p.group ?? ""))).sort(
+    (a, b) => Number(a === "") - Number(b === "") || a.localeCompare(b)
+  );
+  const breakdown = groupNames.map(
+    (name) => [name, participants.filter((p) => (p.group ?? "") === name)] as const
+  );
+
+  const assignMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PATCH", `/api/events/${event.id}/participants/${userId}`, {
+        group,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/events", event.id, "participants"] });
+      setUserId("");
+      setGroup("");
+      toast({
+        title: "Group updated",
+        description: "It applies from the next shuffle",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Network className="w-5 h-5" /> Groups
+        </CardTitle>
+        <CardDescription>{policyText[event.groupPolicy]}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Select
+            value={userId}
+            onValueChange={(id) => {
+              setUserId(id);
+              setGroup(participants.find((p) => String(p.id) === id)?.group ?? "");
+            }}
+          >
+            <SelectTrigger className="w-44" data-testid="select-group-participant">
+              <SelectValue placeholder="Participant" />
+            </SelectTrigger>
+            <SelectContent>
+              {participants.map((p) => (
+                <SelectItem key={p.id} value={String(p.id)}>
+                  {p.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            className="w-44"
+            placeholder="Group (blank for none)"
+            value={group}
+            onChange={(e) => setGroup(e.target.value)}
+            data-testid="input-group"
+          />
+
+          <Button
+            disabled={userId === "" || assignMutation.isPending}
+            onClick={() => assignMutation.mutate()}
+            data-testid="button-set-group"
+          >
+            {assignMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Set Group
+          </Button>
+        </div>
+
+        {participants.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No participants yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {breakdown.map(([name, members]) => (
+              <li
+                key={name}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/30 px-3 py-2 text-sm"
+              >
+                <span className="flex items-center gap-2">
+                  <span className={name ? "font-medium" : "italic text-muted-foreground"}>
+                    {name || "No group"}
+                  </span>
+                  <Badge variant="secondary">{members.length}</Badge>
+                </span>
+                <span className="text-muted-foreground">
+                  {members.map((m) => m.username).join(", ")}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
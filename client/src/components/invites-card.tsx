@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Event, InviteStatus, InviteSummary } from "@shared/schema";
+import { Link2, Copy, Check, Loader2 } from "lucide-react";
+
+const statusBadge: Record<InviteStatus, { label: string; className?: string }> = {
+  pending: { label: "Pending", className: "bg-amber-500/10 text-amber-600 dark:text-amber-400 border-amber-500/20" },
+  used: { label: "Used", className: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20" },
+  expired: { label: "Expired" },
+  revoked: { label: "Revoked" },
+};
+
+export default function InvitesCard({ event }: { event: Event }) {
+  const { toast } = useToast();
+  const [label, setLabel] = useState("");
+  const [group, setGroup] = useState("");
+  // Only the response to creating an invite carries its link
+  const [link, setLink] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const invitesKey = ["/api/events", event.id, "invites"];
+  const { data: invites = [] } = useQuery<InviteSummary[]>({ queryKey: invitesKey });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/invites`, { label, group });
+      return (await res.json()) as { invite: InviteSummary; token: string };
+    },
+    onSuccess: ({ token }) => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      setLink(`${window.location.origin}/join/${token}`);
+      setCopied(false);
+      setLabel("");
+      setGroup("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create invite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (inviteId: number) => {
+      const res = await apiRequest("POST", `/api/events/${event.id}/invites/${inviteId}/revoke`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      toast({ title: "Invite revoked" });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: invitesKey });
+      toast({
+        title: "Failed to revoke invite",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Link2 className="w-5 h-5" /> Invites
+        </CardTitle>
+        <CardDescription>
+          Single-use links, valid for 7 days. Whoever opens one picks their own name and password.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <Input
+            className="w-44"
+            placeholder="For (optional)"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            data-testid="input-invite-label"
+          />
+          <Input
+            className="w-44"
+            placeholder="Group (optional)"
+            value={group}
+            onChange={(e) => setGroup(e.target.value)}
+            data-testid="input-invite-group"
+          />
+          <Button
+            disabled={createMutation.isPending}
+            onClick={() => createMutation.mutate()}
+            data-testid="button-create-invite"
+          >
+            {createMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create Invite
+          </Button>
+        </div>
+
+        {link && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border border-primary/20 bg-primary/5 p-3">
+            <span className="font-mono text-xs break-all flex-1" data-testid="text-invite-link">
+              {link}
+            </span>
+            <Button variant="outline" size="sm" onClick={copyLink} data-testid="button-copy-invite">
+              {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+              {copied ? "Copied" : "Copy"}
+            </Button>
+            <p className="w-full text-xs text-muted-foreground">
+              Copy it now; the link can't be shown again.
+            </p>
+          </div>
+        )}
+
+        {invites.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No invites yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...invites].reverse().map((invite) => (
+              <li
+                key={invite.id}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/30 px-3 py-2 text-sm"
+              >
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className={invite.label ? "font-medium" : "italic text-muted-foreground"}>
+                      {invite.label ?? "Unlabelled"}
+                    </span>
+                    {invite.group && <Badge variant="outline">{invite.group}</Badge>}
+                    <Badge variant="secondary" className={statusBadge[invite.status].className}>
+                      {statusBadge[invite.status].label}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Created {new Date(invite.createdAt).toLocaleDateString()}
+                    {invite.status === "pending" && ` · expires ${new Date(invite.expiresAt).toLocaleDateString()}`}
+                    {invite.usedAt && ` · used ${new Date(invite.usedAt).toLocaleDateString()}`}
+                    {invite.revokedAt && ` · revoked ${new Date(invite.revokedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+
+                {invite.status === "pending" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(invite.id)}
+                    data-testid={`button-revoke-invite-${invite.id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
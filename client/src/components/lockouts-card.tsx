@@ -0,0 +1,87 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { LockoutSummary } from "@shared/schema";
+import { Lock } from "lucide-react";
+
+const LOCKOUTS_KEY = ["/api/lockouts"];
+
+// Not tied to an event: sign-in limits apply across the whole app
+export default function LockoutsCard() {
+  const { toast } = useToast();
+  const { data: lockouts = [] } = useQuery<LockoutSummary[]>({
+    queryKey: LOCKOUTS_KEY,
+    refetchInterval: 30_000,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async ({ kind, key }: LockoutSummary) => {
+      await apiRequest("DELETE", `/api/lockouts/${kind}/${encodeURIComponent(key)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: LOCKOUTS_KEY });
+      toast({ title: "Lockout cleared" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to clear lockout",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Lock className="w-5 h-5" /> Sign-in Lockouts
+        </CardTitle>
+        <CardDescription>
+          Accounts slow down after 3 wrong passwords or codes in a row and lock for 15 minutes after 10.
+          Addresses are paused after 50 failed attempts in 15 minutes. Clearing one lets it try again now.
+        </CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {lockouts.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No failed sign-ins on record.</p>
+        ) : (
+          <ul className="space-y-2">
+            {lockouts.map((lockout) => (
+              <li
+                key={`${lockout.kind}:${lockout.key}`}
+                className="flex flex-wrap items-center justify-between gap-2 rounded-md bg-muted/30 px-3 py-2 text-sm"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{lockout.kind === "ip" ? "Address" : "Account"}</Badge>
+                  <span className="font-medium font-mono">{lockout.key}</span>
+                  <span className="text-muted-foreground">
+                    {lockout.kind === "ip" ? `${lockout.failures} attempts` : `${lockout.failures} failures`}
+                  </span>
+                  {lockout.lockedUntil && (
+                    <Badge variant="destructive">
+                      Locked until {new Date(lockout.lockedUntil).toLocaleTimeString()}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={clearMutation.isPending}
+                  onClick={() => clearMutation.mutate(lockout)}
+                  data-testid={`button-clear-lockout-${lockout.kind}-${lockout.key}`}
+                >
+                  Clear
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useQuery, useMutation, type QueryKey } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { SantaThread, ThreadMessage } from "@shared/schema";
+import { Send, Loader2 } from "lucide-react";
+
+type MessageThreadProps = {
+  messages: ThreadMessage[];
+  sendUrl: string;
+  queryKey: QueryKey; // refetched after sending
+  theirName: string; // how the other side is labelled
+};
+
+// Threads have no push channel; poll while the dashboard is open
+const POLL_MS = 15_000;
+
+// One anonymous conversation; the same view serves giver and recipient
+export default function MessageThread({ messages, sendUrl, queryKey, theirName }: MessageThreadProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", sendUrl, { body });
+      return res.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      queryClient.invalidateQueries({ queryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Message not sent",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3 text-left">
+      {messages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No messages yet.</p>
+      ) : (
+        <ul className="space-y-2 max-h-64 overflow-y-auto">
+          {messages.map((m) => (
+            <li key={m.id} className={cn("flex", m.fromMe ? "justify-end" : "justify-start")}>
+              <div
+                className={cn(
+                  "max-w-[80%] rounded-md px-3 py-2 text-sm",
+                  m.fromMe ? "bg-primary text-primary-foreground" : "bg-muted"
+                )}
+              >
+                <p className="text-xs opacity-70 mb-0.5">
+                  {m.fromMe ? "You" : theirName} · {new Date(m.createdAt).toLocaleString()}
+                </p>
+                <p className="whitespace-pre-wrap break-words">{m.body}</p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form
+        className="flex items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (body.trim()) sendMutation.mutate();
+        }}
+      >
+        <Textarea
+          rows={2}
+          maxLength={2000}
+          placeholder={`Message ${theirName}`}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          data-testid="input-message"
+        />
+        <Button
+          type="submit"
+          size="icon"
+          disabled={!body.trim() || sendMutation.isPending}
+          data-testid="button-send-message"
+        >
+          {sendMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+// The giver's side of one assignment
+export function GiverThread({ assignmentId, receiverName }: { assignmentId: number; receiverName: string }) {
+  const queryKey = ["/api/my-assignments", assignmentId, "messages"];
+  const { data: messages } = useQuery<ThreadMessage[]>({ queryKey, refetchInterval: POLL_MS });
+
+  if (!messages) return <Loader2 className="animate-spin w-4 h-4 mx-auto" />;
+  return (
+    <MessageThread
+      messages={messages}
+      sendUrl={`/api/my-assignments/${assignmentId}/messages`}
+      queryKey={queryKey}
+      theirName={receiverName}
+    />
+  );
+}
+
+// The recipient's side: one thread per Santa, who stays anonymous
+export function SantaThreads() {
+  const queryKey = ["/api/my-santas"];
+  const { data: threads } = useQuery<SantaThread[]>({ queryKey, refetchInterval: POLL_MS });
+
+  if (!threads) return <Loader2 className="animate-spin w-6 h-6 mx-auto" />;
+  if (threads.length === 0)
+    return <p className="text-sm text-muted-foreground">Nobody is buying for you yet.</p>;
+
+  return (
+    <div className="space-y-6">
+      {threads.map(({ santa, messages }) => {
+        const name = threads.length > 1 ? `Secret Santa #${santa}` : "Your Secret Santa";
+        return (
+          <div key={santa} className="space-y-2" data-testid={`thread-santa-${santa}`}>
+            {threads.length > 1 && <h4 className="text-sm font-medium">{name}</h4>}
+            <MessageThread
+              messages={messages}
+              sendUrl={`/api/my-santas/${santa}/messages`}
+              queryKey={queryKey}
+              theirName={name}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
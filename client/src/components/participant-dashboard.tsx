@@ -1,16 +1,15 @@
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Input } from "@/components/ui/input";
-import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { useForm } from "react-hook-form";
-import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { Wishlist, AppState, AssignmentWithDetails } from "@shared/schema";
+import ChangePasswordDialog from "@/components/change-password-dialog";
+import WishlistCard from "@/components/wishlist-card";
+import ProfileCard from "@/components/profile-card";
+import RecipientCard from "@/components/recipient-card";
+import { SantaThreads } from "@/components/message-thread";
+import { formatMoney } from "@/lib/money";
+import { EventWithDraws, AssignmentView } from "@shared/schema";
 import {
   Gift,
   LogOut,
@@ -18,82 +17,33 @@ import {
   Loader2,
   CheckCircle,
   Clock,
-  PartyPopper,
+  ShieldCheck,
+  MessageCircle,
 } from "lucide-react";
-import { useEffect } from "react";
-
-const wishlistSchema = z.object({
-  item1: z.string().min(1, "Please add at least one gift idea"),
-  item2: z.string().optional(),
-  item3: z.string().optional(),
-});
-
-type WishlistFormData = z.infer<typeof wishlistSchema>;
 
 export default function ParticipantDashboard() {
   const { user, logout } = useAuth();
-  const { toast } = useToast();
 
   if (!user) return null;
 
-  // ⭐ stateless backend: include userId in query
-  const { data: wishlist, isLoading: loadingWishlist } = useQuery<Wishlist | null>({
-    queryKey: ["/api/my-wishlist", user.id],
-    queryFn: async () => {
-      const res = await fetch(`/api/my-wishlist?userId=${user.id}`);
-      return res.json();
-    },
+  const { data: event } = useQuery<EventWithDraws | null>({
+    queryKey: ["/api/my-event"],
   });
 
-  const { data: appState } = useQuery<AppState>({
-    queryKey: ["/api/app-state"],
-  });
+  const currentDraw = event?.shuffleCompleted ? event.draws[event.draws.length - 1] : undefined;
+  const awaitingReveal = !!currentDraw && !currentDraw.revealedAt;
 
-  const { data: assignment } = useQuery<AssignmentWithDetails | null>({
-    queryKey: ["/api/my-assignment", user.id],
-    enabled: appState?.shuffleCompleted === true,
+  const { data: assignments } = useQuery<AssignmentView[]>({
+    queryKey: ["/api/my-assignments", user.id],
+    enabled: event?.shuffleCompleted === true && !awaitingReveal,
+    // Picks up wishlist and profile edits the recipient makes after the reveal
+    refetchInterval: 30_000,
     queryFn: async () => {
-      const res = await fetch(`/api/my-assignment?giverId=${user.id}`);
+      const res = await fetch("/api/my-assignments");
       return res.json();
     },
   });
 
-  const form = useForm<WishlistFormData>({
-    resolver: zodResolver(wishlistSchema),
-    defaultValues: { item1: "", item2: "", item3: "" },
-  });
-
-  useEffect(() => {
-    if (wishlist) {
-      form.reset({
-        item1: wishlist.item1 || "",
-        item2: wishlist.item2 || "",
-        item3: wishlist.item3 || "",
-      });
-    }
-  }, [wishlist, form]);
-
-  const saveWishlistMutation = useMutation({
-    mutationFn: async (data: WishlistFormData) => {
-      const res = await apiRequest("POST", "/api/my-wishlist", {
-        userId: user.id,      // ⭐ REQUIRED
-        ...data,
-      });
-      return res.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries();
-      toast({
-        title: "Wishlist saved!",
-        description: "Your gift ideas have been saved successfully",
-      });
-    },
-  });
-
-  const handleSaveWishlist = (data: WishlistFormData) => {
-    saveWishlistMutation.mutate(data);
-  };
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -112,6 +62,7 @@ export default function ParticipantDashboard() {
 
             <div className="flex items-center gap-2">
               <ThemeToggle />
+              <ChangePasswordDialog />
               <Button
                 variant="ghost"
                 size="icon"
@@ -150,76 +101,103 @@ export default function ParticipantDashboard() {
           </CardHeader>
         </Card>
 
-        {/* Wishlist form */}
-        <Card className="mb-8">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Gift className="w-5 h-5 text-primary" />
-              Your Wishlist
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            {loadingWishlist ? (
-              <div className="flex justify-center py-8">
-                <Loader2 className="w-8 h-8 animate-spin" />
-              </div>
-            ) : (
-              <Form {...form}>
-                <form onSubmit={form.handleSubmit(handleSaveWishlist)} className="space-y-4">
-                  {["item1", "item2", "item3"].map((field, index) => (
-                    <FormField
-                      key={field}
-                      control={form.control}
-                      name={field as keyof WishlistFormData}
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Gift Idea {index + 1}</FormLabel>
-                          <FormControl>
-                            <Input {...field} />
-                          </FormControl>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  ))}
-
-                  <Button className="w-full" disabled={saveWishlistMutation.isPending}>
-                    {saveWishlistMutation.isPending && (
-                      <Loader2 className="mr-2 w-4 h-4 animate-spin" />
-                    )}
-                    Save Wishlist
-                  </Button>
-                </form>
-              </Form>
-            )}
-          </CardContent>
-        </Card>
+        <WishlistCard event={event} />
+        <ProfileCard />
 
         {/* Assignment */}
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Sparkles className="w-5 h-5 text-primary" />
-              Your Secret Santa Assignment
+              {event && event.giftsPerPerson > 1 ? "Your Secret Santa Assignments" : "Your Secret Santa Assignment"}
             </CardTitle>
+            {event?.budgetCents != null && (
+              <CardDescription data-testid="text-budget">
+                Budget: {formatMoney(event.budgetCents, event.currency)} per gift
+              </CardDescription>
+            )}
           </CardHeader>
 
           <CardContent>
-            {!appState?.shuffleCompleted ? (
+            {!event?.shuffleCompleted ? (
               <div className="text-center py-8">
                 <Clock className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
                 <p className="text-muted-foreground">Waiting for shuffle…</p>
               </div>
-            ) : assignment ? (
-              <div className="text-center">
-                <PartyPopper className="w-10 h-10 mx-auto mb-2 text-primary" />
-                <h3 className="font-bold text-2xl">{assignment.receiver.username}</h3>
+            ) : awaitingReveal ? (
+              <div className="text-center py-8">
+                <ShieldCheck className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground">The draw is sealed and will be revealed soon.</p>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Commitment <span className="font-mono break-all">{currentDraw.commitment}</span>
+                </p>
+              </div>
+            ) : assignments && assignments.length > 0 ? (
+              <ul className="space-y-4">
+                {assignments.map((assignment) => (
+                  <li key={assignment.id}>
+                    <RecipientCard assignment={assignment} event={event} />
+                  </li>
+                ))}
+              </ul>
+            ) : assignments ? (
+              <div className="text-center py-8">
+                <Clock className="w-8 h-8 mx-auto mb-4 text-muted-foreground" />
+                <p className="text-muted-foreground">
+                  You joined after the shuffle. Your organizer will add you to the draw soon.
+                </p>
               </div>
             ) : (
               <Loader2 className="animate-spin w-6 h-6 mx-auto" />
             )}
           </CardContent>
         </Card>
+
+        {/* Anonymous replies to whoever drew this participant */}
+        {event?.shuffleCompleted && !awaitingReveal && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <MessageCircle className="w-5 h-5 text-primary" />
+                Messages from your Secret Santa
+              </CardTitle>
+              <CardDescription>They know who you are; you'll find out who they are on the day</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SantaThreads />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Published commitments — a re-roll always leaves a trace here */}
+        {event && event.draws.length > 0 && (
+          <Card className="mt-8">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <ShieldCheck className="w-5 h-5 text-primary" />
+                Draw History
+              </CardTitle>
+              <CardDescription>Every draw's commitment, published before its reveal</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                {event.draws.map((d) => (
+                  <li key={d.round} className="flex flex-wrap justify-between gap-2">
+                    <span>
+                      Round {d.round} · {new Date(d.createdAt).toLocaleDateString()}
+                      {d.discardedAt || (!d.revealedAt && d.round !== currentDraw?.round)
+                        ? " · discarded"
+                        : d.revealedAt
+                          ? ""
+                          : " · sealed"}
+                    </span>
+                    <span className="font-mono text-xs text-muted-foreground">{d.commitment.slice(0, 16)}…</span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,108 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Profile } from "@shared/schema";
+import { UserRound, Loader2 } from "lucide-react";
+
+type ProfileFormData = { giftNotes: string; giftAvoid: string };
+
+export default function ProfileCard() {
+  const { toast } = useToast();
+
+  const { data: profile, isLoading } = useQuery<Profile>({
+    queryKey: ["/api/my-profile"],
+  });
+
+  const form = useForm<ProfileFormData>({
+    defaultValues: { giftNotes: "", giftAvoid: "" },
+  });
+
+  useEffect(() => {
+    if (profile) form.reset({ giftNotes: profile.giftNotes ?? "", giftAvoid: profile.giftAvoid ?? "" });
+  }, [profile, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ProfileFormData) => {
+      const res = await apiRequest("POST", "/api/my-profile", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-profile"] });
+      toast({
+        title: "Profile saved",
+        description: "Your Secret Santa will see it with your wishlist",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save profile",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <UserRound className="w-5 h-5 text-primary" />
+          About You
+        </CardTitle>
+        <CardDescription>Shown to your Secret Santa alongside your wishlist</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="giftNotes"
+                rules={{ maxLength: { value: 1000, message: "At most 1000 characters" } }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes for your Santa</FormLabel>
+                    <FormControl>
+                      <Textarea rows={3} placeholder="Sizes, favourite colours, hobbies" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="giftAvoid"
+                rules={{ maxLength: { value: 500, message: "At most 500 characters" } }}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Please avoid</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Allergies, dislikes, things you already have" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <Button className="w-full" disabled={saveMutation.isPending} data-testid="button-save-profile">
+                {saveMutation.isPending && <Loader2 className="mr-2 w-4 h-4 animate-spin" />}
+                Save Profile
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import WishlistItems from "@/components/wishlist-items";
+import { GiverThread } from "@/components/message-thread";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatMoney } from "@/lib/money";
+import { AssignmentView, Event, WishlistChanges, WishlistItemInput } from "@shared/schema";
+import { Gift, PartyPopper, Ban, StickyNote, Bell, Loader2 } from "lucide-react";
+
+// Remembered per assignment, so the reveal only plays once per browser
+const revealKey = (assignmentId: number) => `secret-santa:revealed:${assignmentId}`;
+
+type RecipientCardProps = {
+  assignment: AssignmentView;
+  event: Event;
+};
+
+function ChangesSummary({ changes, currency, onAcknowledge, pending }: {
+  changes: WishlistChanges;
+  currency: string;
+  onAcknowledge: () => void;
+  pending: boolean;
+}) {
+  const describe = (item: WishlistItemInput) =>
+    item.priceCents === null ? item.title : `${item.title} (${formatMoney(item.priceCents, currency)})`;
+
+  return (
+    <div
+      className="rounded-md border border-amber-500/20 bg-amber-500/10 p-3 space-y-2 text-sm"
+      data-testid="wishlist-changes"
+    >
+      <p className="flex items-center gap-2 font-medium">
+        <Bell className="w-4 h-4" />
+        Changed since you last looked · {new Date(changes.changedAt).toLocaleString()}
+      </p>
+      <ul className="space-y-1">
+        {changes.added.map((item, i) => (
+          <li key={`a${i}`}>
+            <span className="text-green-600 dark:text-green-400">Added</span> {describe(item)}
+          </li>
+        ))}
+        {changes.removed.map((item, i) => (
+          <li key={`r${i}`}>
+            <span className="text-destructive">Removed</span> <s>{describe(item)}</s>
+          </li>
+        ))}
+        {changes.changed.map(({ before, after }, i) => (
+          <li key={`c${i}`}>
+            <span className="text-amber-600 dark:text-amber-400">Edited</span> {describe(before)} → {describe(after)}
+          </li>
+        ))}
+      </ul>
+      <Button size="sm" variant="outline" disabled={pending} onClick={onAcknowledge} data-testid="button-seen-changes">
+        {pending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Got it
+      </Button>
+    </div>
+  );
+}
+
+export default function RecipientCard({ assignment, event }: RecipientCardProps) {
+  const { receiver } = assignment;
+  const [revealed, setRevealed] = useState(() => localStorage.getItem(revealKey(assignment.id)) !== null);
+
+  const seenMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/my-assignments/${assignment.id}/seen`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/my-assignments"] });
+    },
+  });
+
+  // First look at this recipient: later edits are measured from here
+  useEffect(() => {
+    if (revealed && !assignment.wishlistSeenAt && !seenMutation.isPending) seenMutation.mutate();
+  }, [revealed, assignment.wishlistSeenAt]);
+
+  const reveal = () => {
+    localStorage.setItem(revealKey(assignment.id), "1");
+    setRevealed(true);
+  };
+
+  if (!revealed) {
+    return (
+      <div className="rounded-md border border-dashed p-8 text-center" data-testid={`assignment-${assignment.id}`}>
+        <Gift className="w-10 h-10 mx-auto mb-4 text-primary" />
+        <p className="text-muted-foreground mb-4">Your recipient is ready.</p>
+        <Button onClick={reveal} data-testid={`button-reveal-${assignment.id}`}>
+          Reveal who you're buying for
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-md border p-4 space-y-4 text-left" data-testid={`assignment-${assignment.id}`}>
+      <div className="text-center">
+        <PartyPopper className="w-10 h-10 mx-auto mb-2 text-primary" />
+        <h3 className="font-bold text-2xl">{receiver.username}</h3>
+        {receiver.group && <Badge variant="outline" className="mt-1">{receiver.group}</Badge>}
+        {assignment.reassignedAt && (
+          <p className="text-sm text-muted-foreground mt-1" data-testid="text-reassigned">
+            This recipient changed on {new Date(assignment.reassignedAt).toLocaleDateString()} after the group
+            changed.
+          </p>
+        )}
+      </div>
+
+      {assignment.wishlistChanges && (
+        <ChangesSummary
+          changes={assignment.wishlistChanges}
+          currency={event.currency}
+          onAcknowledge={() => seenMutation.mutate()}
+          pending={seenMutation.isPending}
+        />
+      )}
+
+      {receiver.giftNotes && (
+        <div className="flex items-start gap-2 text-sm">
+          <StickyNote className="w-4 h-4 mt-0.5 text-primary flex-shrink-0" />
+          <p className="whitespace-pre-wrap">{receiver.giftNotes}</p>
+        </div>
+      )}
+      {receiver.giftAvoid && (
+        <div className="flex items-start gap-2 text-sm">
+          <Ban className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+          <p className="whitespace-pre-wrap">
+            <span className="font-medium">Please avoid:</span> {receiver.giftAvoid}
+          </p>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">Wishlist</h4>
+        {receiver.wishlist.length > 0 ? (
+          <WishlistItems items={receiver.wishlist} currency={event.currency} budgetCents={event.budgetCents} />
+        ) : (
+          <p className="text-sm text-muted-foreground">No gift ideas yet.</p>
+        )}
+      </div>
+
+      <div className="rounded-md border p-3">
+        <GiverThread assignmentId={assignment.id} receiverName={receiver.username} />
+      </div>
+    </div>
+  );
+}
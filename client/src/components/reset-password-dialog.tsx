@@ -0,0 +1,98 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { SafeUser } from "@shared/schema";
+import { Copy, Check, Loader2 } from "lucide-react";
+
+type ResetPasswordDialogProps = {
+  eventId: number;
+  participant: SafeUser;
+};
+
+// The link is only ever shown in the response that created it
+export default function ResetPasswordDialog({ eventId, participant }: ResetPasswordDialogProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [link, setLink] = useState<{ url: string; expiresAt: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/participants/${participant.id}/password-reset`);
+      return (await res.json()) as { token: string; expiresAt: string };
+    },
+    onSuccess: ({ token, expiresAt }) => {
+      setLink({ url: `${window.location.origin}/reset-password/${token}`, expiresAt });
+      setCopied(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to create reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyLink = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link.url);
+    setCopied(true);
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) setLink(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" className="mr-2" data-testid={`button-reset-password-${participant.id}`}>
+          Reset password
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reset password for {participant.username}</DialogTitle>
+          <DialogDescription>
+            Creates a one-time link, valid for a day, where they choose a new password. Their current
+            password keeps working until then; using the link signs them out everywhere else. Any
+            earlier link stops working.
+          </DialogDescription>
+        </DialogHeader>
+
+        {link ? (
+          <div className="space-y-2 rounded-md border border-primary/20 bg-primary/5 p-3">
+            <p className="font-mono text-xs break-all" data-testid="text-reset-link">
+              {link.url}
+            </p>
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Expires {new Date(link.expiresAt).toLocaleString()}. Copy it now; it can't be shown again.
+              </p>
+              <Button variant="outline" size="sm" onClick={copyLink} data-testid="button-copy-reset-link">
+                {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+                {copied ? "Copied" : "Copy"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            disabled={resetMutation.isPending}
+            onClick={() => resetMutation.mutate()}
+            data-testid="button-create-reset-link"
+          >
+            {resetMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Create reset link
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
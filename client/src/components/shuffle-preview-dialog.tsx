@@ -0,0 +1,116 @@
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ShufflePreview } from "@shared/schema";
+import { SearchCheck, Loader2, CheckCircle, AlertCircle } from "lucide-react";
+
+function ReportRow({ ok, children }: { ok: boolean; children: React.ReactNode }) {
+  return (
+    <li className="flex items-start gap-2">
+      {ok ? (
+        <CheckCircle className="w-4 h-4 mt-0.5 text-green-600 dark:text-green-400 flex-shrink-0" />
+      ) : (
+        <AlertCircle className="w-4 h-4 mt-0.5 text-destructive flex-shrink-0" />
+      )}
+      <span>{children}</span>
+    </li>
+  );
+}
+
+export default function ShufflePreviewDialog({ eventId, disabled }: { eventId: number; disabled?: boolean }) {
+  const { toast } = useToast();
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/events/${eventId}/shuffle/preview`);
+      return (await res.json()) as ShufflePreview;
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Check failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const preview = previewMutation.data;
+
+  return (
+    <Dialog
+      onOpenChange={(open) => {
+        if (open) previewMutation.mutate();
+        else previewMutation.reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled} data-testid="button-check-shuffle">
+          <SearchCheck className="w-4 h-4 mr-2" />
+          Check shuffle
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Shuffle Check</DialogTitle>
+          <DialogDescription>
+            A dry run of the draw. Nothing is saved and no pairings are shown.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : (
+          <ul className="space-y-3 text-sm">
+            {preview.ready ? (
+              <ReportRow ok>Everyone is ready to be drawn</ReportRow>
+            ) : (
+              preview.issues.map((issue) => (
+                <ReportRow key={issue} ok={false}>{issue}</ReportRow>
+              ))
+            )}
+
+            {preview.feasible ? (
+              <ReportRow ok>
+                {preview.gifts > 1
+                  ? `Everyone can give and receive ${preview.gifts} gifts`
+                  : preview.cycles.length === 1
+                    ? `One gift chain through all ${preview.cycles[0]} participants`
+                    : `${preview.cycles.length} separate gift chains of ${preview.cycles.join(", ")} people`}
+              </ReportRow>
+            ) : (
+              <ReportRow ok={false}>{preview.reason ?? "Not enough participants to draw"}</ReportRow>
+            )}
+
+            <ReportRow ok={preview.feasible}>
+              {preview.constraints.exclusions === 1
+                ? "1 exclusion rule"
+                : `${preview.constraints.exclusions} exclusion rules`}
+              {preview.feasible ? " respected" : " in place"}
+            </ReportRow>
+
+            {preview.constraints.groupPolicy !== "any" && (
+              <ReportRow ok={preview.feasible}>
+                {preview.constraints.groupPolicy === "same"
+                  ? "Pairings stay within each group"
+                  : "Pairings always cross groups"}
+              </ReportRow>
+            )}
+
+            {preview.constraints.historyRounds > 0 && (
+              <ReportRow ok={preview.constraints.relaxed.length === 0}>
+                {preview.constraints.relaxed.length === 0
+                  ? `No repeats from the last ${preview.constraints.historyRounds} round(s)`
+                  : preview.constraints.relaxed.join("; ")}
+              </ReportRow>
+            )}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import QRCode from "qrcode";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { TotpSetup, TotpStatus } from "@shared/schema";
+import { ShieldCheck, Copy, Check, Loader2 } from "lucide-react";
+
+const STATUS_KEY = ["/api/me/totp"];
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} inputMode="numeric" pattern="^[0-9]*$" value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {[0, 1, 2, 3, 4, 5].map((index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once, straight after they are created
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    setCopied(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+        authenticator. They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 rounded-md bg-muted/30 p-3 font-mono text-sm" data-testid="list-recovery-codes">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={copy} data-testid="button-copy-recovery-codes">
+          {copied ? <Check className="w-4 h-4 mr-2" /> : <Copy className="w-4 h-4 mr-2" />}
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button className="flex-1" onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export default function TwoFactorDialog() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [setup, setSetup] = useState<TotpSetup | null>(null);
+  const [qr, setQr] = useState<string | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<TotpStatus>({ queryKey: STATUS_KEY, enabled: open });
+
+  useEffect(() => {
+    if (!setup) {
+      setQr(null);
+      return;
+    }
+    QRCode.toDataURL(setup.uri, { margin: 1, width: 200 }).then(setQr, () => setQr(null));
+  }, [setup]);
+
+  const reset = () => {
+    setSetup(null);
+    setCode("");
+    setPassword("");
+    setRecoveryCodes(null);
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    setCode("");
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: STATUS_KEY });
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/me/totp/setup");
+      return (await res.json()) as TotpSetup;
+    },
+    onSuccess: setSetup,
+    onError: onError("Couldn't start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/me/totp/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setSetup(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError: onError("Couldn't turn on two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/me/totp/recovery-codes", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError: onError("Couldn't create recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/me/totp/disable", { password, code });
+    },
+    onSuccess: () => {
+      reset();
+      refresh();
+      toast({ title: "Two-factor authentication turned off" });
+    },
+    onError: onError("Couldn't turn off two-factor authentication"),
+  });
+
+  let body;
+  if (recoveryCodes) {
+    body = <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  } else if (!status) {
+    body = <Loader2 className="w-6 h-6 mx-auto animate-spin" />;
+  } else if (!status.enabled && !setup) {
+    body = (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Ask for a code from an authenticator app as well as your password when signing in.
+        </p>
+        <Button
+          className="w-full"
+          disabled={setupMutation.isPending}
+          onClick={() => setupMutation.mutate()}
+          data-testid="button-start-totp"
+        >
+          {setupMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Set up two-factor authentication
+        </Button>
+      </div>
+    );
+  } else if (!status.enabled && setup) {
+    body = (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Scan this with your authenticator app, then enter the code it shows.
+        </p>
+        {qr && <img src={qr} alt="Two-factor QR code" className="mx-auto rounded-md" data-testid="img-totp-qr" />}
+        <p className="text-xs text-muted-foreground text-center">
+          Can't scan it? Enter this key instead:
+          <span className="block font-mono text-foreground break-all mt-1" data-testid="text-totp-secret">
+            {setup.secret}
+          </span>
+        </p>
+        <div className="flex justify-center">
+          <CodeInput value={code} onChange={setCode} />
+        </div>
+        <Button
+          className="w-full"
+          disabled={code.length !== 6 || enableMutation.isPending}
+          onClick={() => enableMutation.mutate()}
+          data-testid="button-enable-totp"
+        >
+          {enableMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Turn on
+        </Button>
+      </div>
+    );
+  } else {
+    body = (
+      <div className="space-y-4">
+        <p className="text-sm">
+          <Badge className="bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20 mr-2">On</Badge>
+          {status.recoveryCodesLeft} of 10 recovery codes left
+        </p>
+        <p className="text-sm text-muted-foreground">
+          Enter a current code (or a recovery code) to make new recovery codes or to turn two-factor
+          off. Turning it off also needs your password.
+        </p>
+        <Input
+          placeholder="Code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          data-testid="input-totp-manage-code"
+        />
+        <Input
+          type="password"
+          placeholder="Password (to turn off)"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          data-testid="input-totp-manage-password"
+        />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={!code.trim() || regenerateMutation.isPending}
+            onClick={() => regenerateMutation.mutate()}
+            data-testid="button-regenerate-recovery-codes"
+          >
+            New recovery codes
+          </Button>
+          <Button
+            variant="destructive"
+            className="flex-1"
+            disabled={!code.trim() || !password || disableMutation.isPending}
+            onClick={() => disableMutation.mutate()}
+            data-testid="button-disable-totp"
+          >
+            Turn off
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Two-factor authentication" data-testid="button-two-factor">
+          <ShieldCheck className="w-5 h-5" />
+        </Button>
+      </DialogTrigger>
+
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Two-factor authentication</DialogTitle>
+          <DialogDescription>Protects the admin account, which controls the shuffle and resets.</DialogDescription>
+        </DialogHeader>
+        {body}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,277 @@
+import { useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { priorityLabels } from "@/components/wishlist-items";
+import { formatMoney, isWayOverBudget, parseMoney, toMoneyInput } from "@/lib/money";
+import { Event, WishlistItem } from "@shared/schema";
+import { Gift, Loader2, Plus, Trash2, ArrowUp, ArrowDown } from "lucide-react";
+
+// Prices are typed in major units and sent in minor units of the event's currency
+const itemSchema = (currency: string) => z.object({
+  title: z.string().trim().min(1, "Every gift idea needs a title").max(200),
+  url: z
+    .string()
+    .trim()
+    .refine((url) => url === "" || /^https?:\/\/\S+$/i.test(url), "Links must start with http:// or https://"),
+  price: z
+    .string()
+    .trim()
+    .refine((price) => price === "" || parseMoney(price, currency) !== null, "Use a plain number like 25 or 19.99"),
+  priority: z.string(),
+  notes: z.string().max(1000),
+});
+
+type ItemFormData = z.infer<ReturnType<typeof itemSchema>>;
+type WishlistFormData = { items: ItemFormData[] };
+
+const blankItem: ItemFormData = { title: "", url: "", price: "", priority: "3", notes: "" };
+
+const toFormItem = (item: WishlistItem, currency: string): ItemFormData => ({
+  title: item.title,
+  url: item.url ?? "",
+  price: item.priceCents === null ? "" : toMoneyInput(item.priceCents, currency),
+  priority: String(item.priority),
+  notes: item.notes ?? "",
+});
+
+const toPayload = ({ items }: WishlistFormData, currency: string) => ({
+  items: items.map((item) => ({
+    title: item.title,
+    url: item.url || null,
+    priceCents: parseMoney(item.price, currency),
+    priority: Number(item.priority),
+    notes: item.notes || null,
+  })),
+});
+
+export default function WishlistCard({ event }: { event: Event | null | undefined }) {
+  const { toast } = useToast();
+  const minItems = event?.wishlistMinItems ?? 1;
+  const maxItems = event?.wishlistMaxItems ?? 5;
+  const currency = event?.currency ?? "USD";
+  const budgetCents = event?.budgetCents ?? null;
+
+  const { data: wishlist, isLoading } = useQuery<WishlistItem[]>({
+    queryKey: ["/api/my-wishlist"],
+  });
+
+  const form = useForm<WishlistFormData>({
+    resolver: zodResolver(
+      z.object({
+        items: z
+          .array(itemSchema(currency))
+          .min(minItems, `Please add at least ${minItems} gift idea(s)`)
+          .max(maxItems, `At most ${maxItems} gift ideas`),
+      })
+    ),
+    defaultValues: { items: [blankItem] },
+  });
+  const { fields, append, remove, move } = useFieldArray({ control: form.control, name: "items" });
+
+  useEffect(() => {
+    if (wishlist?.length) form.reset({ items: wishlist.map((item) => toFormItem(item, currency)) });
+  }, [wishlist, currency, form]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: WishlistFormData) => {
+      const res = await apiRequest("POST", "/api/my-wishlist", toPayload(data, currency));
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast({
+        title: "Wishlist saved!",
+        description: "Your gift ideas have been saved successfully",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save wishlist",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const listError = form.formState.errors.items?.root?.message ?? form.formState.errors.items?.message;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="w-5 h-5 text-primary" />
+          Your Wishlist
+        </CardTitle>
+        <CardDescription>
+          {minItems > 0 ? `Between ${minItems} and ${maxItems} gift ideas` : `Up to ${maxItems} gift ideas`}, in the
+          order you'd like them
+          {budgetCents !== null && ` · budget ${formatMoney(budgetCents, currency)} per gift`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-8 h-8 animate-spin" />
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4">
+              {fields.map((field, index) => (
+                <div key={field.id} className="rounded-md border p-4 space-y-3" data-testid={`wishlist-item-${index}`}>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">Gift Idea {index + 1}</span>
+                    <div className="flex gap-1">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === 0}
+                        onClick={() => move(index, index - 1)}
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        disabled={index === fields.length - 1}
+                        onClick={() => move(index, index + 1)}
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => remove(index)}
+                        data-testid={`button-remove-item-${index}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.title`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Title</FormLabel>
+                        <FormControl>
+                          <Input {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.url`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Link</FormLabel>
+                        <FormControl>
+                          <Input placeholder="https://" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="flex flex-wrap gap-3">
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.price`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Price ({currency})</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" className="w-32" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                          {isWayOverBudget(parseMoney(field.value, currency), budgetCents) && (
+                            <p className="text-sm text-amber-600 dark:text-amber-400" data-testid={`warning-over-budget-${index}`}>
+                              Well over the {formatMoney(budgetCents!, currency)} budget
+                            </p>
+                          )}
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.priority`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Priority</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger className="w-40">
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {[1, 2, 3, 4, 5].map((p) => (
+                                <SelectItem key={p} value={String(p)}>
+                                  {priorityLabels[p]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.notes`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Notes</FormLabel>
+                        <FormControl>
+                          <Textarea rows={2} placeholder="Size, colour, anything that helps" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              ))}
+
+              {listError && <p className="text-sm font-medium text-destructive">{listError}</p>}
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={fields.length >= maxItems}
+                onClick={() => append(blankItem)}
+                data-testid="button-add-item"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Gift Idea
+              </Button>
+
+              <Button className="w-full" disabled={saveMutation.isPending} data-testid="button-save-wishlist">
+                {saveMutation.isPending && <Loader2 className="mr-2 w-4 h-4 animate-spin" />}
+                Save Wishlist
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,63 @@
+import { Badge } from "@/components/ui/badge";
+import { formatMoney, isWayOverBudget } from "@/lib/money";
+import { WishlistItem } from "@shared/schema";
+import { Gift, ExternalLink, AlertTriangle } from "lucide-react";
+
+export const priorityLabels: Record<number, string> = {
+  1: "Must have",
+  2: "Really want",
+  3: "Want",
+  4: "Would like",
+  5: "Nice to have",
+};
+
+// Read-only rendering of a wishlist, in the order its owner saved it
+type WishlistItemsProps = {
+  items: WishlistItem[];
+  currency: string;
+  budgetCents: number | null;
+};
+
+export default function WishlistItems({ items, currency, budgetCents }: WishlistItemsProps) {
+  if (items.length === 0) return null;
+
+  return (
+    <ul className="text-sm space-y-2">
+      {items.map((item) => (
+        <li key={item.id} className="flex items-start gap-2">
+          <Gift className="w-3 h-3 mt-1 text-primary flex-shrink-0" />
+          <div className="min-w-0 space-y-0.5">
+            <div className="flex flex-wrap items-center gap-2">
+              {item.url ? (
+                <a
+                  href={item.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="font-medium underline underline-offset-2 inline-flex items-center gap-1 break-all"
+                >
+                  {item.title}
+                  <ExternalLink className="w-3 h-3" />
+                </a>
+              ) : (
+                <span className="font-medium">{item.title}</span>
+              )}
+              {item.priceCents !== null &&
+                (isWayOverBudget(item.priceCents, budgetCents) ? (
+                  <span className="inline-flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                    <AlertTriangle className="w-3 h-3" />
+                    {formatMoney(item.priceCents, currency)}
+                  </span>
+                ) : (
+                  <span className="text-muted-foreground">{formatMoney(item.priceCents, currency)}</span>
+                ))}
+              <Badge variant={item.priority <= 2 ? "default" : "secondary"}>
+                {priorityLabels[item.priority]}
+              </Badge>
+            </div>
+            {item.notes && <p className="text-muted-foreground">{item.notes}</p>}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
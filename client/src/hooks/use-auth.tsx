@@ -1,19 +1,16 @@
-import {
-  createContext,
-  ReactNode,
-  useContext,
-  useState,
-} from "react";
-import { useMutation, UseMutationResult } from "@tanstack/react-query";
-import { User as SelectUser } from "@shared/schema";
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { LoginChallenge, SafeUser } from "@shared/schema";
 
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { setCurrentUser, clearCurrentUser } from "@/lib/userStore";
 
 type AuthContextType = {
-  user: SelectUser | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  user: SafeUser | null;
+  isLoading: boolean;
+  // Resolves to a challenge instead of a user when a two-factor code is due
+  loginMutation: UseMutationResult<SafeUser | LoginChallenge, Error, LoginData>;
+  totpMutation: UseMutationResult<SafeUser, Error, string>;
   logout: () => void;
 };
 
@@ -22,26 +19,50 @@ type LoginData = {
   password: string;
 };
 
+const USER_KEY = ["/api/user"];
+
 export const AuthContext = createContext<AuthContextType | null>(null);
 
+// The session cookie is the only source of truth: the user is whatever
+// GET /api/user says, so a refresh picks up where it left off.
 export function AuthProvider({ children }: { children: ReactNode }) {
   const { toast } = useToast();
-  const [user, setUser] = useState<SelectUser | null>(null);
+
+  const { data: user = null, isLoading } = useQuery<SafeUser | null>({
+    queryKey: USER_KEY,
+    queryFn: async () => {
+      const res = await fetch("/api/user", { credentials: "include" });
+      if (res.status === 401) return null;
+      if (!res.ok) throw new Error(`Request failed (${res.status})`);
+      return res.json();
+    },
+    staleTime: Infinity,
+  });
 
   const loginMutation = useMutation({
     mutationFn: async (credentials: LoginData) => {
       const res = await apiRequest("POST", "/api/login", credentials);
-      const body = await res.json();
-
-      if (!body.success || !body.user) {
-        throw new Error(body.message || "Invalid username or password");
-      }
+      return (await res.json()) as SafeUser | LoginChallenge;
+    },
+    onSuccess: (result) => {
+      if (!("totpRequired" in result)) queryClient.setQueryData(USER_KEY, result);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
-      return body.user as SelectUser;
+  const totpMutation = useMutation({
+    mutationFn: async (code: string) => {
+      const res = await apiRequest("POST", "/api/login/totp", { code });
+      return (await res.json()) as SafeUser;
     },
     onSuccess: (loggedInUser) => {
-      setUser(loggedInUser);
-      setCurrentUser(loggedInUser);
+      queryClient.setQueryData(USER_KEY, loggedInUser);
     },
     onError: (error) => {
       toast({
@@ -52,13 +73,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
-  const logout = () => {
-    setUser(null);
-    clearCurrentUser();
-  };
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSettled: () => {
+      // Nothing cached for this user may leak into the next session
+      queryClient.clear();
+      queryClient.setQueryData(USER_KEY, null);
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   return (
-    <AuthContext.Provider value={{ user, loginMutation, logout }}>
+    <AuthContext.Provider
+      value={{ user, isLoading, loginMutation, totpMutation, logout: () => logoutMutation.mutate() }}
+    >
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,33 @@
+// Amounts travel as integers in the currency's minor unit (cents for USD,
+// whole yen for JPY); these helpers convert to and from what people type.
+
+// A price this many times the budget is flagged, not rejected
+export const OVER_BUDGET_FACTOR = 1.5;
+
+export function minorDigits(currency: string) {
+  return new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions().maximumFractionDigits ?? 2;
+}
+
+export function formatMoney(minor: number, currency: string) {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(
+    minor / 10 ** minorDigits(currency)
+  );
+}
+
+// "19.99" → 1999 for USD. Returns null for blank or malformed input.
+export function parseMoney(text: string, currency: string) {
+  const digits = minorDigits(currency);
+  const pattern = digits > 0 ? new RegExp(`^\\d+(\\.\\d{1,${digits}})?$`) : /^\d+$/;
+  if (!pattern.test(text.trim())) return null;
+  return Math.round(Number(text) * 10 ** digits);
+}
+
+// The inverse of parseMoney, for filling in a form
+export function toMoneyInput(minor: number, currency: string) {
+  const digits = minorDigits(currency);
+  return (minor / 10 ** digits).toFixed(digits);
+}
+
+export function isWayOverBudget(priceMinor: number | null, budgetMinor: number | null) {
+  return priceMinor !== null && budgetMinor !== null && priceMinor > budgetMinor * OVER_BUDGET_FACTOR;
+}
@@ -1,28 +1,12 @@
-import { QueryClient } from "@tanstack/react-query";
-
-export const queryClient = new QueryClient();
-
-const ADMIN_ROUTES = [
-  { method: "POST", prefix: "/api/participants" },
-  { method: "DELETE", prefix: "/api/participants" },
-  { method: "POST", prefix: "/api/shuffle" },
-  { method: "POST", prefix: "/api/reset" },
-];
+import { QueryClient, type QueryFunction } from "@tanstack/react-query";
 
+// Admin routes are authorized server-side from the session cookie,
+// so no secret is ever shipped to the browser.
 export async function apiRequest(method: string, url: string, data?: any) {
   const headers: any = {
     "Content-Type": "application/json",
   };
 
-  // Auto-attach admin secret when calling admin-only routes
-  const isAdminRoute = ADMIN_ROUTES.some(
-    (r) => r.method === method && url.startsWith(r.prefix)
-  );
-
-  if (isAdminRoute) {
-    headers["x-admin-secret"] = process.env.NEXT_PUBLIC_ADMIN_SECRET!;
-  }
-
   const res = await fetch(url, {
     method,
     headers,
@@ -30,11 +14,14 @@ export async function apiRequest(method: string, url: string, data?: any) {
     credentials: "include",
   });
 
+  // The session ended elsewhere (logout, password change): back to login
+  if (res.status === 401) queryClient.setQueryData(["/api/user"], null);
+
   if (!res.ok) {
     let errorMessage = `Request failed (${res.status})`;
     try {
       const body = await res.json();
-      if (body?.error) errorMessage = body.error;
+      errorMessage = body?.error || body?.message || errorMessage;
     } catch {}
 
     throw new Error(errorMessage);
@@ -42,3 +29,20 @@ export async function apiRequest(method: string, url: string, data?: any) {
 
   return res;
 }
+
+// Query keys double as URLs: ["/api/events", 3, "participants"]
+// fetches /api/events/3/participants.
+export const getQueryFn: QueryFunction = async ({ queryKey }) => {
+  const res = await apiRequest("GET", queryKey.join("/"));
+  return res.json();
+};
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      queryFn: getQueryFn,
+      refetchOnWindowFocus: false,
+      retry: false,
+    },
+  },
+});
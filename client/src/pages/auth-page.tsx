@@ -11,6 +11,7 @@ import {
   CardTitle,
 } from "@/components/ui/card";
 import { Tabs, TabsList, TabsTrigger, TabsContent } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import {
   Form,
   FormControl,
@@ -19,7 +20,7 @@ import {
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
-import { Gift, Snowflake, Users, Sparkles, Loader2 } from "lucide-react";
+import { Gift, Snowflake, Users, Sparkles, Loader2, ShieldCheck } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -31,6 +32,91 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// Second step for accounts with two-factor on: the authenticator's code,
+// or one of the recovery codes
+function TotpStep({ onBack }: { onBack: () => void }) {
+  const { totpMutation } = useAuth();
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState("");
+
+  const submit = (value = code) => {
+    if (value.trim()) totpMutation.mutate(value.trim());
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit();
+      }}
+      className="space-y-4"
+    >
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <ShieldCheck className="w-4 h-4 text-primary" />
+        {useRecovery
+          ? "Enter one of your recovery codes. Each works once."
+          : "Enter the 6-digit code from your authenticator app."}
+      </div>
+
+      {useRecovery ? (
+        <Input
+          autoFocus
+          placeholder="xxxx-xxxx"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          data-testid="input-recovery-code"
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            autoFocus
+            maxLength={6}
+            inputMode="numeric"
+            pattern="^[0-9]*$"
+            value={code}
+            onChange={setCode}
+            onComplete={submit}
+            data-testid="input-totp-code"
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={totpMutation.isPending || !code.trim()}
+        data-testid="button-totp-submit"
+      >
+        {totpMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+        Verify
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" className="text-muted-foreground hover:underline" onClick={onBack}>
+          Back
+        </button>
+        <button
+          type="button"
+          className="text-primary hover:underline"
+          onClick={() => {
+            setUseRecovery(!useRecovery);
+            setCode("");
+          }}
+          data-testid="button-toggle-recovery"
+        >
+          {useRecovery ? "Use authenticator code" : "Use a recovery code"}
+        </button>
+      </div>
+    </form>
+  );
+}
+
 export default function AuthPage() {
   const [, navigate] = useLocation();
   const { user, loginMutation } = useAuth(); // only login now
@@ -51,6 +137,8 @@ export default function AuthPage() {
     loginMutation.mutate(data);
   };
 
+  const challenged = !!loginMutation.data && "totpRequired" in loginMutation.data;
+
   return (
     <div className="min-h-screen flex bg-background">
       {/* Left column */}
@@ -79,9 +167,13 @@ export default function AuthPage() {
                 </TabsList>
 
                 <TabsContent value="login" className="mt-4">
-                  <CardTitle className="text-xl">Welcome back</CardTitle>
+                  <CardTitle className="text-xl">
+                    {challenged ? "Two-factor authentication" : "Welcome back"}
+                  </CardTitle>
                   <CardDescription>
-                    Enter your credentials to access your account
+                    {challenged
+                      ? "One more step to access your account"
+                      : "Enter your credentials to access your account"}
                   </CardDescription>
                 </TabsContent>
               </Tabs>
@@ -90,61 +182,70 @@ export default function AuthPage() {
             <CardContent>
               <Tabs value="login">
                 <TabsContent value="login">
-                  <Form {...loginForm}>
-                    <form
-                      onSubmit={loginForm.handleSubmit(onLogin)}
-                      className="space-y-4"
-                    >
-                      <FormField
-                        control={loginForm.control}
-                        name="username"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Username</FormLabel>
-                            <FormControl>
-                              <Input
-                                placeholder="Enter your username"
-                                {...field}
-                                data-testid="input-login-username"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <FormField
-                        control={loginForm.control}
-                        name="password"
-                        render={({ field }) => (
-                          <FormItem>
-                            <FormLabel>Password</FormLabel>
-                            <FormControl>
-                              <Input
-                                type="password"
-                                placeholder="Enter your password"
-                                {...field}
-                                data-testid="input-login-password"
-                              />
-                            </FormControl>
-                            <FormMessage />
-                          </FormItem>
-                        )}
-                      />
-
-                      <Button
-                        type="submit"
-                        className="w-full"
-                        disabled={loginMutation.isPending}
-                        data-testid="button-login-submit"
+                  {challenged ? (
+                    <TotpStep
+                      onBack={() => {
+                        loginMutation.reset();
+                        loginForm.resetField("password");
+                      }}
+                    />
+                  ) : (
+                    <Form {...loginForm}>
+                      <form
+                        onSubmit={loginForm.handleSubmit(onLogin)}
+                        className="space-y-4"
                       >
-                        {loginMutation.isPending && (
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                        )}
-                        Sign In
-                      </Button>
-                    </form>
-                  </Form>
+                        <FormField
+                          control={loginForm.control}
+                          name="username"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Username</FormLabel>
+                              <FormControl>
+                                <Input
+                                  placeholder="Enter your username"
+                                  {...field}
+                                  data-testid="input-login-username"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={loginForm.control}
+                          name="password"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Password</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="password"
+                                  placeholder="Enter your password"
+                                  {...field}
+                                  data-testid="input-login-password"
+                                />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <Button
+                          type="submit"
+                          className="w-full"
+                          disabled={loginMutation.isPending}
+                          data-testid="button-login-submit"
+                        >
+                          {loginMutation.isPending && (
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          )}
+                          Sign In
+                        </Button>
+                      </form>
+                    </Form>
+                  )}
                 </TabsContent>
               </Tabs>
             </CardContent>
@@ -0,0 +1,166 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { InvitePreview, SafeUser, redeemInviteSchema } from "@shared/schema";
+import { Gift, Loader2, AlertCircle } from "lucide-react";
+
+const joinSchema = redeemInviteSchema
+  .extend({ confirmPassword: z.string() })
+  .refine((d) => d.password === d.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type JoinFormData = z.infer<typeof joinSchema>;
+
+const unavailable: Record<Exclude<InvitePreview["status"], "pending">, string> = {
+  used: "This invite has already been used. Sign in with the name and password you chose.",
+  expired: "This invite has expired. Ask your organizer for a new one.",
+  revoked: "This invite was withdrawn by your organizer.",
+};
+
+export default function JoinPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const { data: invite, isLoading, error } = useQuery<InvitePreview>({
+    queryKey: ["/api/invites", token],
+  });
+
+  const form = useForm<JoinFormData>({
+    resolver: zodResolver(joinSchema),
+    defaultValues: { username: "", password: "", confirmPassword: "" },
+    values: invite ? { username: invite.label ?? "", password: "", confirmPassword: "" } : undefined,
+    resetOptions: { keepDirtyValues: true },
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: async ({ username, password }: JoinFormData) => {
+      const res = await apiRequest("POST", `/api/invites/${token}/redeem`, { username, password });
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      // A different account may have been signed in on this browser
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], user);
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invites", token] });
+      toast({
+        title: "Couldn't join",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
+            <Gift className="w-8 h-8 text-primary" />
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">Secret Santa</h1>
+        </div>
+
+        <Card>
+          {isLoading ? (
+            <CardContent className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin" />
+            </CardContent>
+          ) : !invite || error ? (
+            <CardContent className="text-center py-12 space-y-4">
+              <AlertCircle className="w-8 h-8 mx-auto text-destructive" />
+              <p className="text-muted-foreground">This invite link isn't valid.</p>
+              <Button variant="outline" onClick={() => navigate("/auth")}>
+                Go to sign in
+              </Button>
+            </CardContent>
+          ) : invite.status !== "pending" ? (
+            <CardContent className="text-center py-12 space-y-4">
+              <AlertCircle className="w-8 h-8 mx-auto text-muted-foreground" />
+              <p className="text-muted-foreground" data-testid="text-invite-status">
+                {unavailable[invite.status]}
+              </p>
+              <Button variant="outline" onClick={() => navigate("/auth")}>
+                Go to sign in
+              </Button>
+            </CardContent>
+          ) : (
+            <>
+              <CardHeader>
+                <CardTitle className="text-xl">Join {invite.eventName}</CardTitle>
+                <CardDescription>
+                  Choose the name others will see and a password. You'll use both to sign in.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Form {...form}>
+                  <form onSubmit={form.handleSubmit((data) => joinMutation.mutate(data))} className="space-y-4">
+                    <FormField
+                      control={form.control}
+                      name="username"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input {...field} data-testid="input-join-username" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="password"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Password</FormLabel>
+                          <FormControl>
+                            <Input type="password" {...field} data-testid="input-join-password" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="confirmPassword"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Confirm password</FormLabel>
+                          <FormControl>
+                            <Input type="password" {...field} data-testid="input-join-confirm" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button type="submit" className="w-full" disabled={joinMutation.isPending} data-testid="button-join">
+                      {joinMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Join
+                    </Button>
+                  </form>
+                </Form>
+              </CardContent>
+            </>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
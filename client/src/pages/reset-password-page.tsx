@@ -0,0 +1,113 @@
+import { useMutation } from "@tanstack/react-query";
+import { useLocation, useParams } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { SafeUser, resetPasswordSchema } from "@shared/schema";
+import { Gift, Loader2 } from "lucide-react";
+
+const formSchema = resetPasswordSchema
+  .extend({ confirmPassword: z.string() })
+  .refine((d) => d.password === d.confirmPassword, {
+    message: "Passwords don't match",
+    path: ["confirmPassword"],
+  });
+
+type ResetFormData = z.infer<typeof formSchema>;
+
+export default function ResetPasswordPage() {
+  const { token } = useParams<{ token: string }>();
+  const [, navigate] = useLocation();
+  const { toast } = useToast();
+
+  const form = useForm<ResetFormData>({
+    resolver: zodResolver(formSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ password }: ResetFormData) => {
+      const res = await apiRequest("POST", `/api/password-reset/${token}`, { password });
+      return (await res.json()) as SafeUser;
+    },
+    onSuccess: (user) => {
+      // A different account may have been signed in on this browser
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], user);
+      navigate("/");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't reset password",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-8">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 rounded-full bg-primary/10 mb-4">
+            <Gift className="w-8 h-8 text-primary" />
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">Secret Santa</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-xl">Choose a new password</CardTitle>
+            <CardDescription>
+              This link works once. Any other devices you're signed in on will be signed out.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+                <FormField
+                  control={form.control}
+                  name="password"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>New password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} data-testid="input-reset-password" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="confirmPassword"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Confirm password</FormLabel>
+                      <FormControl>
+                        <Input type="password" {...field} data-testid="input-reset-confirm" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button type="submit" className="w-full" disabled={resetMutation.isPending} data-testid="button-reset">
+                  {resetMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set password
+                </Button>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,60 +1,450 @@
 // server/auth.ts
-import { Express } from "express";
+import { Express, type Request, type RequestHandler } from "express";
 import session from "express-session";
-import { storage } from "./storage";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { fromZodError } from "zod-validation-error";
+import { storage, toSafeUser } from "./storage";
+import { DatabaseStorage } from "./db-storage";
+import { pool } from "./pg";
+import { verifyPassword, verifyDummyPassword, isHashed, hashPassword } from "./passwords";
+import { hashToken } from "./tokens";
+import { loginLimiter, sendTooManyRequests, throttleIp } from "./rate-limit";
+import {
+  generateTotpSecret,
+  generateRecoveryCodes,
+  normalizeRecoveryCode,
+  totpUri,
+  verifyTotp,
+} from "./totp";
+import {
+  changePasswordSchema,
+  resetPasswordSchema,
+  totpCodeSchema,
+  disableTotpSchema,
+  type User,
+  type LoginChallenge,
+  type TotpSetup,
+  type TotpStatus,
+} from "@shared/schema";
+
+export type SessionUser = Pick<User, "id" | "username" | "role" | "sessionVersion">;
+
+// A password accepted for an account with two-factor on, waiting for its code
+type PendingLogin = { userId: number; expiresAt: number; attempts: number };
+
+declare module "express-session" {
+  interface SessionData {
+    user: SessionUser;
+    pendingLogin: PendingLogin;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: SessionUser | null;
+    }
+  }
+}
+
+// 401 when nobody is logged in
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  next();
+};
+
+// 401 for anonymous callers, 403 for logged-in non-admins
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!req.user) {
+    return res.status(401).json({ message: "Unauthorized" });
+  }
+  if (req.user.role !== "admin") {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+};
+
+// Logs the user in on this request. A fresh session id on every login
+// rules out session fixation.
+export async function startSession(req: Request, user: User) {
+  await new Promise<void>((resolve, reject) =>
+    req.session.regenerate((err) => (err ? reject(err) : resolve()))
+  );
+  req.session.user = {
+    id: user.id,
+    username: user.username,
+    role: user.role,
+    sessionVersion: user.sessionVersion,
+  };
+}
+
+const SESSION_MAX_AGE = 1000 * 60 * 60 * 24 * 7; // one week
+const PENDING_LOGIN_MAX_AGE = 1000 * 60 * 5; // five minutes to enter the code
+const PENDING_LOGIN_ATTEMPTS = 5;
+
+// Six digits are checked against the authenticator, anything else as a
+// recovery code. Either way the code is spent on success.
+async function checkSecondFactor(user: User, code: string) {
+  if (!user.totpSecret || !user.totpEnabledAt) return false;
+  if (/^\d{6}$/.test(code)) {
+    const step = verifyTotp(user.totpSecret, code);
+    return step !== null && (await storage.useTotpStep(user.id, step));
+  }
+  return storage.useRecoveryCode(user.id, hashToken(normalizeRecoveryCode(code)));
+}
+
+// Returns the plaintext codes to show once; only their hashes are stored
+function issueRecoveryCodes() {
+  const codes = generateRecoveryCodes();
+  return { codes, hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code))) };
+}
+
+function getSessionSecret() {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("SESSION_SECRET not set, using an insecure development secret");
+  return "santa-dev-secret";
+}
+
+// Sessions live in the `session` table when Postgres backs the app, so
+// logins survive restarts; the in-memory backend gets a pruning MemoryStore.
+function createSessionStore(): session.Store {
+  if (pool && storage instanceof DatabaseStorage) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool, tableName: "session" });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: SESSION_MAX_AGE });
+}
 
 export function setupAuth(app: Express) {
+  const isProduction = process.env.NODE_ENV === "production";
+
+  // Secure cookies need the real protocol from the hosting proxy
+  if (isProduction) app.set("trust proxy", 1);
+
   // --- SESSION MIDDLEWARE ---
   app.use(
     session({
-      secret: "santa-secret-key", // choose any string
+      secret: getSessionSecret(),
+      store: createSessionStore(),
       resave: false,
       saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        secure: isProduction,
+        sameSite: "lax",
+        maxAge: SESSION_MAX_AGE,
+      },
     })
   );
 
-  // Middleware to attach session user to req.user
-  app.use((req: any, _res, next) => {
-    req.user = req.session.user || null;
-    next();
+  // Middleware to attach session user to req.user. API calls re-check the
+  // account, so a deleted user or a password change ends older sessions.
+  app.use(async (req, _res, next) => {
+    const sessionUser = req.session.user;
+    req.user = sessionUser || null;
+    if (!sessionUser || !req.path.startsWith("/api/")) return next();
+
+    try {
+      const user = await storage.getUser(sessionUser.id);
+      // Sessions from before versioning count as version 0
+      if (!user || user.sessionVersion !== (sessionUser.sessionVersion ?? 0)) {
+        // Not destroyed, so a login on this same request still works
+        req.user = null;
+        delete req.session.user;
+      }
+      next();
+    } catch (err) {
+      next(err);
+    }
   });
 
   // --- LOGIN ---
-  app.post("/api/login", async (req, res) => {
+  // Unknown usernames are throttled like real ones, so the limiter doesn't
+  // reveal which accounts exist
+  app.post("/api/login", throttleIp, async (req, res) => {
     try {
       const { username, password } = req.body;
 
+      if (typeof username !== "string" || typeof password !== "string") {
+        return res.status(400).json({ message: "Username and password are required" });
+      }
+
+      // Counted before the password is checked, so parallel guesses can't
+      // all get in before the back-off starts
+      const wait = await loginLimiter.attempt(username);
+      if (wait) return sendTooManyRequests(res, wait);
+
       const user = await storage.getUserByUsername(username);
-      if (!user || user.password !== password) {
-        return res.status(401).json({ error: "Invalid username or password" });
+      const valid = user
+        ? await verifyPassword(password, user.password)
+        : await verifyDummyPassword(password);
+      if (!user || !valid) {
+        return res.status(401).json({ message: "Invalid username or password" });
       }
 
-      // Save user in session
-      req.session.user = {
-        id: user.id,
-        username: user.username,
-        role: user.role,
-      };
+      // Upgrade legacy plaintext rows now that we know the password
+      if (!isHashed(user.password)) {
+        await storage.updateUserPassword(user.id, await hashPassword(password));
+      }
+
+      // Two-factor accounts get a challenge instead of a session. The
+      // password was right, so only the code step counts from here on.
+      if (user.totpEnabledAt) {
+        await loginLimiter.refund(username);
+        await new Promise<void>((resolve, reject) =>
+          req.session.regenerate((err) => (err ? reject(err) : resolve()))
+        );
+        req.session.pendingLogin = {
+          userId: user.id,
+          expiresAt: Date.now() + PENDING_LOGIN_MAX_AGE,
+          attempts: 0,
+        };
+        const challenge: LoginChallenge = { totpRequired: true };
+        return res.json(challenge);
+      }
+
+      await loginLimiter.recordSuccess(username);
+      await startSession(req, user);
+      res.json(toSafeUser(user));
+    } catch (err) {
+      console.error("Login error:", err);
+      res.status(500).json({ message: "Login failed" });
+    }
+  });
+
+  // --- LOGIN, SECOND STEP ---
+  app.post("/api/login/totp", throttleIp, async (req, res) => {
+    try {
+      const parsed = totpCodeSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+      const pending = req.session.pendingLogin;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingLogin;
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user) {
+        delete req.session.pendingLogin;
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+
+      // Counted like a password attempt; a right code clears it again, so
+      // only wrong codes add to the account's streak
+      const wait = await loginLimiter.attempt(user.username);
+      if (wait) return sendTooManyRequests(res, wait);
+
+      if (!(await checkSecondFactor(user, parsed.data.code))) {
+        // A handful of guesses per password entry, then start over
+        pending.attempts++;
+        if (pending.attempts >= PENDING_LOGIN_ATTEMPTS) delete req.session.pendingLogin;
+        return res.status(401).json({ message: "Invalid code" });
+      }
 
-      res.json(req.session.user);
+      await loginLimiter.recordSuccess(user.username);
+      await startSession(req, user);
+      res.json(toSafeUser(user));
     } catch (err) {
       console.error("Login error:", err);
-      res.status(500).json({ error: "Login failed" });
+      res.status(500).json({ message: "Login failed" });
     }
   });
 
   // --- LOGOUT ---
   app.post("/api/logout", async (req: any, res) => {
     req.session.destroy(() => {
-      res.json({ success: true });
+      res.clearCookie("connect.sid");
+      res.sendStatus(200);
     });
   });
 
+  // --- CHANGE PASSWORD ---
+  // Signs out every other session; this one carries on with a new id
+  app.post("/api/me/password", requireAuth, async (req, res) => {
+    try {
+      const parsed = changePasswordSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.status(401).json({ message: "Unauthorized" });
+
+      const { currentPassword, newPassword } = parsed.data;
+      if (!(await verifyPassword(currentPassword, user.password)))
+        return res.status(400).json({ message: "Current password is incorrect" });
+
+      const sessionVersion = await storage.changeUserPassword(
+        user.id,
+        await hashPassword(newPassword)
+      );
+      await startSession(req, { ...user, sessionVersion });
+      res.sendStatus(200);
+    } catch (err) {
+      console.error("Change password error:", err);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // --- PASSWORD RESET ---
+  // Redeems an admin-issued reset link: sets the password, signs out every
+  // existing session, and logs in here. Unknown, used and expired tokens
+  // all get the same answer.
+  app.post("/api/password-reset/:token", throttleIp, async (req, res) => {
+    try {
+      const parsed = resetPasswordSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+      const reset = await storage.consumePasswordReset(hashToken(req.params.token));
+      const user = reset ? await storage.getUser(reset.userId) : null;
+      if (!user)
+        return res.status(410).json({ message: "This reset link is no longer valid" });
+
+      const sessionVersion = await storage.changeUserPassword(
+        user.id,
+        await hashPassword(parsed.data.password)
+      );
+      await startSession(req, { ...user, sessionVersion });
+      res.json(toSafeUser(user));
+    } catch (err) {
+      console.error("Password reset error:", err);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // --- TWO-FACTOR ENROLLMENT — ADMIN ONLY ---
+  app.get("/api/me/totp", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      const status: TotpStatus = {
+        enabled: !!user?.totpEnabledAt,
+        recoveryCodesLeft: user?.totpEnabledAt ? await storage.countRecoveryCodes(user.id) : 0,
+      };
+      res.json(status);
+    } catch {
+      res.status(500).json({ message: "Failed to get two-factor status" });
+    }
+  });
+
+  // Starts (or restarts) enrollment with a fresh secret. It only takes
+  // effect once a code from it is confirmed.
+  app.post("/api/me/totp/setup", requireAdmin, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.status(401).json({ message: "Unauthorized" });
+      if (user.totpEnabledAt)
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+
+      const secret = generateTotpSecret();
+      await storage.setTotpSecret(user.id, secret);
+      const setup: TotpSetup = { secret, uri: totpUri(secret, user.username) };
+      res.json(setup);
+    } catch (err) {
+      console.error("Two-factor setup error:", err);
+      res.status(500).json({ message: "Failed to start two-factor setup" });
+    }
+  });
+
+  app.post("/api/me/totp/enable", requireAdmin, async (req, res) => {
+    try {
+      const parsed = totpCodeSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.status(401).json({ message: "Unauthorized" });
+      if (user.totpEnabledAt)
+        return res.status(409).json({ message: "Two-factor authentication is already on" });
+      if (!user.totpSecret)
+        return res.status(400).json({ message: "Start two-factor setup first" });
+
+      const step = verifyTotp(user.totpSecret, parsed.data.code);
+      if (step === null)
+        return res.status(400).json({ message: "That code didn't match; check your device's clock" });
+
+      const { codes, hashes } = issueRecoveryCodes();
+      await storage.enableTotp(user.id, step, hashes);
+      res.json({ recoveryCodes: codes });
+    } catch (err) {
+      console.error("Two-factor enable error:", err);
+      res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+    }
+  });
+
+  // Needs the password and a current code, so an unattended session can't
+  // quietly strip the second factor
+  app.post("/api/me/totp/disable", requireAdmin, async (req, res) => {
+    try {
+      const parsed = disableTotpSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.status(401).json({ message: "Unauthorized" });
+      if (!user.totpEnabledAt)
+        return res.status(409).json({ message: "Two-factor authentication is already off" });
+
+      if (!(await verifyPassword(parsed.data.password, user.password)))
+        return res.status(400).json({ message: "Password is incorrect" });
+      if (!(await checkSecondFactor(user, parsed.data.code)))
+        return res.status(400).json({ message: "Invalid code" });
+
+      await storage.disableTotp(user.id);
+      res.sendStatus(200);
+    } catch (err) {
+      console.error("Two-factor disable error:", err);
+      res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+    }
+  });
+
+  // A new set of recovery codes; the old ones stop working
+  app.post("/api/me/totp/recovery-codes", requireAdmin, async (req, res) => {
+    try {
+      const parsed = totpCodeSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res.status(400).json({ message: fromZodError(parsed.error).message });
+
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.status(401).json({ message: "Unauthorized" });
+      if (!user.totpEnabledAt)
+        return res.status(409).json({ message: "Two-factor authentication is off" });
+      if (!(await checkSecondFactor(user, parsed.data.code)))
+        return res.status(400).json({ message: "Invalid code" });
+
+      const { codes, hashes } = issueRecoveryCodes();
+      await storage.replaceRecoveryCodes(user.id, hashes);
+      res.json({ recoveryCodes: codes });
+    } catch (err) {
+      console.error("Recovery codes error:", err);
+      res.status(500).json({ message: "Failed to create recovery codes" });
+    }
+  });
+
   // --- CURRENT USER ENDPOINT ---
-  app.get("/api/user", (req: any, res) => {
-    if (!req.user) {
-      return res.status(401).json({ user: null });
+  // Same shape as the login response, read fresh so flags like
+  // wishlistCompleted are current. A deleted account ends the session.
+  app.get("/api/user", async (req, res) => {
+    try {
+      const user = req.user ? await storage.getUser(req.user.id) : null;
+      if (!user) {
+        if (req.user) req.session.destroy(() => {});
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      res.json(toSafeUser(user));
+    } catch {
+      res.status(500).json({ message: "Failed to get user" });
     }
-    res.json(req.user);
   });
 }
@@ -0,0 +1,705 @@
+// server/db-storage.ts
+import { and, or, eq, gt, lt, inArray, isNull, isNotNull, desc, max, count, sql, getTableColumns, type SQL } from "drizzle-orm";
+import {
+  events,
+  users,
+  wishlistItems,
+  wishlistRevisions,
+  legacyWishlists,
+  invites,
+  passwordResets,
+  recoveryCodes,
+  assignments,
+  messages,
+  exclusions,
+  assignmentHistory,
+  draws,
+  NewUser,
+  NewEvent,
+  UpdateEvent,
+  NewDraw,
+  NewExclusion,
+  NewMessage,
+  NewInvite,
+  NewPasswordReset,
+  Profile,
+  WishlistItem,
+  WishlistItemInput,
+} from "@shared/schema";
+import type { Db } from "./pg";
+import type { IStorage } from "./storage";
+import { ConflictError } from "./errors";
+import { splicedPairs, type Pair } from "./matcher";
+import { sameWishlist } from "./wishlist-diff";
+
+// Column set used whenever a user is returned to the client
+const {
+  password: _password,
+  sessionVersion: _sessionVersion,
+  totpSecret: _totpSecret,
+  totpLastStep: _totpLastStep,
+  ...safeUserColumns
+} = getTableColumns(users);
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Db) {}
+
+  // --- USERS ---
+  async createUser(user: NewUser) {
+    const [created] = await this.db.insert(users).values(user).returning();
+    return created;
+  }
+
+  async getUser(id: number) {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || null;
+  }
+
+  async getUserByUsername(username: string) {
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.username, username));
+    return user || null;
+  }
+
+  async deleteUser(id: number) {
+    await this.db.delete(users).where(eq(users.id, id));
+  }
+
+  async getParticipantsByEvent(eventId: number) {
+    const participants = await this.db
+      .select(safeUserColumns)
+      .from(users)
+      .where(and(eq(users.role, "participant"), eq(users.eventId, eventId)))
+      .orderBy(users.id);
+
+    const wishlists = await this.wishlistsOf(participants.map((p) => p.id));
+    return participants.map((user) => ({
+      ...user,
+      wishlist: wishlists.get(user.id) ?? [],
+    }));
+  }
+
+  async moveUnassignedParticipants(eventId: number) {
+    await this.db
+      .update(users)
+      .set({ eventId })
+      .where(and(eq(users.role, "participant"), isNull(users.eventId)));
+  }
+
+  async updateUserWishlistStatus(userId: number, completed: boolean) {
+    await this.db
+      .update(users)
+      .set({ wishlistCompleted: completed })
+      .where(eq(users.id, userId));
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string) {
+    await this.db
+      .update(users)
+      .set({ password: passwordHash })
+      .where(eq(users.id, userId));
+  }
+
+  async changeUserPassword(userId: number, passwordHash: string) {
+    return this.db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(users)
+        .set({ password: passwordHash, sessionVersion: sql`${users.sessionVersion} + 1` })
+        .where(eq(users.id, userId))
+        .returning({ sessionVersion: users.sessionVersion });
+      await tx.delete(passwordResets).where(eq(passwordResets.userId, userId));
+      return updated?.sessionVersion ?? 0;
+    });
+  }
+
+  async updateUserGroup(userId: number, group: string | null) {
+    await this.db.update(users).set({ group }).where(eq(users.id, userId));
+  }
+
+  async updateUserProfile(userId: number, profile: Profile) {
+    await this.db.update(users).set(profile).where(eq(users.id, userId));
+  }
+
+  // --- TWO-FACTOR ---
+  async setTotpSecret(userId: number, secret: string) {
+    await this.db.update(users).set({ totpSecret: secret }).where(eq(users.id, userId));
+  }
+
+  async enableTotp(userId: number, step: number, recoveryCodeHashes: string[]) {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ totpEnabledAt: new Date(), totpLastStep: step })
+        .where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx
+        .insert(recoveryCodes)
+        .values(recoveryCodeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async disableTotp(userId: number) {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .update(users)
+        .set({ totpSecret: null, totpEnabledAt: null, totpLastStep: null })
+        .where(eq(users.id, userId));
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    });
+  }
+
+  async useTotpStep(userId: number, step: number) {
+    const claimed = await this.db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(
+        and(
+          eq(users.id, userId),
+          or(isNull(users.totpLastStep), lt(users.totpLastStep, step))
+        )
+      )
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]) {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx
+        .insert(recoveryCodes)
+        .values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string) {
+    const claimed = await this.db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(recoveryCodes.userId, userId),
+          eq(recoveryCodes.codeHash, codeHash),
+          isNull(recoveryCodes.usedAt)
+        )
+      )
+      .returning({ id: recoveryCodes.id });
+    return claimed.length > 0;
+  }
+
+  async countRecoveryCodes(userId: number) {
+    const [row] = await this.db
+      .select({ count: count() })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return row?.count ?? 0;
+  }
+
+  // --- WISHLISTS ---
+  // Items for several users in one query, keyed by user id
+  private async wishlistsOf(userIds: number[]) {
+    const byUser = new Map<number, WishlistItem[]>();
+    if (!userIds.length) return byUser;
+
+    const items = await this.db
+      .select()
+      .from(wishlistItems)
+      .where(inArray(wishlistItems.userId, userIds))
+      .orderBy(wishlistItems.userId, wishlistItems.position);
+    for (const item of items) {
+      byUser.set(item.userId, [...(byUser.get(item.userId) ?? []), item]);
+    }
+    return byUser;
+  }
+
+  async getWishlistByUserId(userId: number) {
+    return this.db
+      .select()
+      .from(wishlistItems)
+      .where(eq(wishlistItems.userId, userId))
+      .orderBy(wishlistItems.position);
+  }
+
+  async replaceWishlist(userId: number, items: WishlistItemInput[]) {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(wishlistItems).where(eq(wishlistItems.userId, userId));
+      const [latest] = await tx
+        .select()
+        .from(wishlistRevisions)
+        .where(eq(wishlistRevisions.userId, userId))
+        .orderBy(desc(wishlistRevisions.id))
+        .limit(1);
+      if (!latest || !sameWishlist(latest.items, items))
+        await tx.insert(wishlistRevisions).values({ userId, items });
+      if (!items.length) return [];
+      return tx
+        .insert(wishlistItems)
+        .values(items.map((item, position) => ({ ...item, userId, position })))
+        .returning();
+    });
+  }
+
+  async getWishlistRevisions(userId: number) {
+    return this.db
+      .select()
+      .from(wishlistRevisions)
+      .where(eq(wishlistRevisions.userId, userId))
+      .orderBy(wishlistRevisions.id);
+  }
+
+  // Each old slot becomes an item with default priority, in slot order.
+  // Users who already have items keep them; their legacy row is dropped.
+  async migrateLegacyWishlists() {
+    return this.db.transaction(async (tx) => {
+      const legacy = await tx.select().from(legacyWishlists);
+      let migrated = 0;
+
+      for (const row of legacy) {
+        const [existing] = await tx
+          .select({ id: wishlistItems.id })
+          .from(wishlistItems)
+          .where(eq(wishlistItems.userId, row.userId))
+          .limit(1);
+
+        const titles = [row.item1, row.item2, row.item3]
+          .map((title) => title?.trim())
+          .filter((title): title is string => !!title);
+        if (!existing && titles.length) {
+          await tx.insert(wishlistItems).values(
+            titles.map((title, position) => ({ userId: row.userId, position, title }))
+          );
+          await tx.insert(wishlistRevisions).values({
+            userId: row.userId,
+            items: titles.map((title) => ({ title, url: null, priceCents: null, priority: 3, notes: null })),
+          });
+          migrated++;
+        }
+      }
+
+      if (legacy.length) await tx.delete(legacyWishlists);
+      return migrated;
+    });
+  }
+
+  // --- EVENTS ---
+  async getAllEvents() {
+    return this.db.select().from(events).orderBy(events.id);
+  }
+
+  async getEvent(id: number) {
+    const [event] = await this.db.select().from(events).where(eq(events.id, id));
+    return event || null;
+  }
+
+  async createEvent(event: NewEvent) {
+    const [created] = await this.db.insert(events).values(event).returning();
+    return created;
+  }
+
+  async updateEvent(id: number, changes: UpdateEvent) {
+    // Drizzle refuses an empty SET
+    if (Object.keys(changes).length === 0) {
+      const event = await this.getEvent(id);
+      if (!event) throw new Error(`Event ${id} not found`);
+      return event;
+    }
+    const [updated] = await this.db
+      .update(events)
+      .set(changes)
+      .where(eq(events.id, id))
+      .returning();
+    if (!updated) throw new Error(`Event ${id} not found`);
+    return updated;
+  }
+
+  async deleteEvent(id: number) {
+    await this.db.delete(events).where(eq(events.id, id));
+  }
+
+  // --- INVITES ---
+  async createInvite(invite: NewInvite) {
+    const [created] = await this.db.insert(invites).values(invite).returning();
+    return created;
+  }
+
+  async getInvitesByEvent(eventId: number) {
+    return this.db
+      .select()
+      .from(invites)
+      .where(eq(invites.eventId, eventId))
+      .orderBy(invites.id);
+  }
+
+  async getInviteByTokenHash(tokenHash: string) {
+    const [invite] = await this.db
+      .select()
+      .from(invites)
+      .where(eq(invites.tokenHash, tokenHash));
+    return invite || null;
+  }
+
+  private pendingInvite(id: number) {
+    return and(
+      eq(invites.id, id),
+      isNull(invites.usedAt),
+      isNull(invites.revokedAt),
+      gt(invites.expiresAt, new Date())
+    );
+  }
+
+  async revokeInvite(id: number) {
+    const [revoked] = await this.db
+      .update(invites)
+      .set({ revokedAt: new Date() })
+      .where(this.pendingInvite(id))
+      .returning();
+    return revoked || null;
+  }
+
+  // The conditional update claims the invite, so two people opening the
+  // same link can't both get in
+  async redeemInvite(id: number, user: NewUser) {
+    return this.db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(invites)
+        .set({ usedAt: new Date() })
+        .where(this.pendingInvite(id))
+        .returning();
+      if (!claimed) throw new ConflictError("Invite is no longer valid");
+
+      const [created] = await tx.insert(users).values(user).returning();
+      await tx.update(invites).set({ usedByUserId: created.id }).where(eq(invites.id, id));
+      return created;
+    });
+  }
+
+  // --- PASSWORD RESETS ---
+  async createPasswordReset(reset: NewPasswordReset) {
+    const [created] = await this.db
+      .insert(passwordResets)
+      .values(reset)
+      .onConflictDoUpdate({
+        target: passwordResets.userId,
+        set: { tokenHash: reset.tokenHash, expiresAt: reset.expiresAt, createdAt: new Date() },
+      })
+      .returning();
+    return created;
+  }
+
+  // The delete is the claim, so a token can't be used twice concurrently
+  async consumePasswordReset(tokenHash: string) {
+    const [reset] = await this.db
+      .delete(passwordResets)
+      .where(eq(passwordResets.tokenHash, tokenHash))
+      .returning();
+    return reset && reset.expiresAt > new Date() ? reset : null;
+  }
+
+  // --- EXCLUSIONS ---
+  async getExclusionsByEvent(eventId: number) {
+    return this.db
+      .select()
+      .from(exclusions)
+      .where(eq(exclusions.eventId, eventId))
+      .orderBy(exclusions.id);
+  }
+
+  async createExclusion(exclusion: NewExclusion) {
+    const [created] = await this.db
+      .insert(exclusions)
+      .values(exclusion)
+      .returning();
+    return created;
+  }
+
+  async deleteExclusion(id: number) {
+    await this.db.delete(exclusions).where(eq(exclusions.id, id));
+  }
+
+  // --- ASSIGNMENTS ---
+  async getAssignmentsByGiverId(giverId: number) {
+    const rows = await this.db
+      .select({ assignment: assignments, receiver: safeUserColumns })
+      .from(assignments)
+      .innerJoin(users, eq(users.id, assignments.receiverId))
+      .where(eq(assignments.giverId, giverId))
+      .orderBy(assignments.id);
+
+    const wishlists = await this.wishlistsOf(rows.map((row) => row.receiver.id));
+    return rows.map((row) => ({
+      ...row.assignment,
+      receiver: { ...row.receiver, wishlist: wishlists.get(row.receiver.id) ?? [] },
+    }));
+  }
+
+  async getAssignmentsByReceiverId(receiverId: number) {
+    return this.db
+      .select()
+      .from(assignments)
+      .where(eq(assignments.receiverId, receiverId))
+      .orderBy(assignments.id);
+  }
+
+  async getAssignmentsByEvent(eventId: number) {
+    return this.db
+      .select()
+      .from(assignments)
+      .where(eq(assignments.eventId, eventId));
+  }
+
+  async markWishlistSeen(assignmentId: number, seenAt: Date) {
+    await this.db
+      .update(assignments)
+      .set({ wishlistSeenAt: seenAt })
+      .where(eq(assignments.id, assignmentId));
+  }
+
+  // --- MESSAGES ---
+  async getMessagesByAssignment(assignmentId: number) {
+    return this.db
+      .select()
+      .from(messages)
+      .where(eq(messages.assignmentId, assignmentId))
+      .orderBy(messages.id);
+  }
+
+  async createMessage(message: NewMessage) {
+    const [created] = await this.db.insert(messages).values(message).returning();
+    return created;
+  }
+
+  // --- SHUFFLE STATE ---
+  // Every shuffle-state write starts with this conditional version bump, so
+  // a concurrent request blocks on the row lock and then matches nothing.
+  private async claimEvent(
+    tx: Pick<Db, "update">,
+    eventId: number,
+    expectedVersion: number,
+    changes: { shuffleCompleted?: boolean } = {},
+    shuffled?: boolean
+  ) {
+    const [claimed] = await tx
+      .update(events)
+      .set({ ...changes, version: sql`${events.version} + 1` })
+      .where(
+        and(
+          eq(events.id, eventId),
+          eq(events.version, expectedVersion),
+          shuffled === undefined ? undefined : eq(events.shuffleCompleted, shuffled)
+        )
+      )
+      .returning();
+    if (!claimed)
+      throw new ConflictError("Event was changed by another request");
+    return claimed;
+  }
+
+  async commitShuffle(eventId: number, expectedVersion: number, draw: NewDraw, pairs: Pair[]) {
+    return this.db.transaction(async (tx) => {
+      await this.claimEvent(tx, eventId, expectedVersion, { shuffleCompleted: true }, false);
+
+      await tx.delete(assignments).where(eq(assignments.eventId, eventId));
+      const round = (await this.latestRound(eventId, tx)) + 1;
+      const [created] = await tx
+        .insert(draws)
+        .values({ ...draw, eventId, round })
+        .returning();
+
+      if (pairs.length) {
+        const rows = pairs.map(({ giverId, receiverId }) => ({ eventId, giverId, receiverId }));
+        await tx.insert(assignments).values(rows);
+        await tx
+          .insert(assignmentHistory)
+          .values(rows.map((r) => ({ ...r, round })));
+      }
+      return created;
+    });
+  }
+
+  async resetShuffle(eventId: number, expectedVersion: number, keepDraw = false) {
+    return this.db.transaction(async (tx) => {
+      // Locked first, so the draw is only discarded if this reset ends it
+      const [before] = await tx
+        .select({ shuffleCompleted: events.shuffleCompleted })
+        .from(events)
+        .where(eq(events.id, eventId))
+        .for("update");
+      const updated = await this.claimEvent(tx, eventId, expectedVersion, {
+        shuffleCompleted: false,
+      });
+      if (before?.shuffleCompleted && !keepDraw) {
+        await tx
+          .update(draws)
+          .set({ discardedAt: new Date() })
+          .where(and(eq(draws.eventId, eventId), eq(draws.round, await this.latestRound(eventId, tx))));
+      }
+      await tx.delete(assignments).where(eq(assignments.eventId, eventId));
+      return updated;
+    });
+  }
+
+  async withdrawParticipant(eventId: number, expectedVersion: number, userId: number, repairs: Pair[]) {
+    return this.db.transaction(async (tx) => {
+      await this.claimEvent(tx, eventId, expectedVersion, {}, true);
+      // Cascades take the user's wishlist, rules and all of their live
+      // pairs; their archived pairs stay, marked superseded
+      await tx.delete(users).where(eq(users.id, userId));
+      await this.archiveRepair(
+        tx,
+        eventId,
+        or(eq(assignmentHistory.giverId, userId), eq(assignmentHistory.receiverId, userId)),
+        repairs
+      );
+
+      if (!repairs.length) return [];
+      const reassignedAt = new Date();
+      return tx
+        .insert(assignments)
+        .values(repairs.map((p) => ({ ...p, eventId, reassignedAt })))
+        .returning();
+    });
+  }
+
+  // Marks the current round's matching pairs superseded and archives the
+  // pairs that replaced them
+  private async archiveRepair(
+    tx: Pick<Db, "select" | "update" | "insert">,
+    eventId: number,
+    replaced: SQL | undefined,
+    added: Pair[]
+  ) {
+    const round = await this.latestRound(eventId, tx);
+    const now = new Date();
+    await tx
+      .update(assignmentHistory)
+      .set({ supersededAt: now })
+      .where(
+        and(
+          eq(assignmentHistory.eventId, eventId),
+          eq(assignmentHistory.round, round),
+          isNull(assignmentHistory.supersededAt),
+          replaced
+        )
+      );
+    if (added.length) {
+      await tx
+        .insert(assignmentHistory)
+        .values(added.map((p) => ({ ...p, eventId, round, drawn: false, createdAt: now })));
+    }
+  }
+
+  async spliceParticipant(eventId: number, expectedVersion: number, userId: number, splits: Pair[]) {
+    return this.db.transaction(async (tx) => {
+      await this.claimEvent(tx, eventId, expectedVersion, {}, true);
+
+      for (const { giverId, receiverId } of splits) {
+        const [giver] = await tx
+          .update(assignments)
+          .set({ receiverId: userId, reassignedAt: new Date(), wishlistSeenAt: null })
+          .where(
+            and(
+              eq(assignments.eventId, eventId),
+              eq(assignments.giverId, giverId),
+              eq(assignments.receiverId, receiverId)
+            )
+          )
+          .returning();
+        if (!giver)
+          throw new ConflictError("Assignment to split no longer exists");
+        await tx.delete(messages).where(eq(messages.assignmentId, giver.id));
+      }
+
+      if (!splits.length) return [];
+      await this.archiveRepair(
+        tx,
+        eventId,
+        or(
+          ...splits.map((p) =>
+            and(eq(assignmentHistory.giverId, p.giverId), eq(assignmentHistory.receiverId, p.receiverId))
+          )
+        ),
+        splicedPairs(splits, userId)
+      );
+      return tx
+        .insert(assignments)
+        .values(splits.map((p) => ({ eventId, giverId: userId, receiverId: p.receiverId })))
+        .returning();
+    });
+  }
+
+  // --- DRAWS + HISTORY ---
+  private async latestRound(eventId: number, executor: Pick<Db, "select"> = this.db) {
+    const [{ latest }] = await executor
+      .select({ latest: max(draws.round) })
+      .from(draws)
+      .where(eq(draws.eventId, eventId));
+    return latest ?? 0;
+  }
+
+  async getDrawsByEvent(eventId: number) {
+    return this.db
+      .select()
+      .from(draws)
+      .where(eq(draws.eventId, eventId))
+      .orderBy(draws.round);
+  }
+
+  async getDraw(eventId: number, round: number) {
+    const [draw] = await this.db
+      .select()
+      .from(draws)
+      .where(and(eq(draws.eventId, eventId), eq(draws.round, round)));
+    return draw || null;
+  }
+
+  async markDrawRevealed(id: number) {
+    await this.db
+      .update(draws)
+      .set({ revealedAt: new Date() })
+      .where(and(eq(draws.id, id), isNull(draws.revealedAt)));
+    const [draw] = await this.db.select().from(draws).where(eq(draws.id, id));
+    if (!draw) throw new Error(`Draw ${id} not found`);
+    return draw;
+  }
+
+  async getRoundPairs(eventId: number, round: number) {
+    return this.db
+      .select()
+      .from(assignmentHistory)
+      .where(
+        and(
+          eq(assignmentHistory.eventId, eventId),
+          eq(assignmentHistory.round, round),
+          eq(assignmentHistory.drawn, true)
+        )
+      );
+  }
+
+  async getRecentHistory(eventId: number, rounds: number) {
+    const counted = await this.db
+      .select({ round: draws.round })
+      .from(draws)
+      .where(
+        and(
+          eq(draws.eventId, eventId),
+          isNotNull(draws.revealedAt),
+          isNull(draws.discardedAt)
+        )
+      )
+      .orderBy(desc(draws.round))
+      .limit(rounds);
+    if (!counted.length) return [];
+
+    return this.db
+      .select()
+      .from(assignmentHistory)
+      .where(
+        and(
+          eq(assignmentHistory.eventId, eventId),
+          inArray(assignmentHistory.round, counted.map((d) => d.round)),
+          isNull(assignmentHistory.supersededAt)
+        )
+      );
+  }
+}
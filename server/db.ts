@@ -1,17 +1,35 @@
 // server/db.ts
 import { storage } from "./storage";
+import { hashPassword } from "./passwords";
 
 export async function seedAdmin() {
   const existing = await storage.getUserByUsername("admin");
   if (existing) return;
 
   await storage.createUser({
-    id: Date.now(),       // simple unique ID
     username: "admin",
-    password: "admin123", // plain text (Option 1)
+    password: await hashPassword("admin123"),
     role: "admin",
     wishlistCompleted: false,
   });
 
   console.log("Seeded admin user → username: admin | password: admin123");
 }
+
+// Deployments from before multi-event support have participants with no
+// event; park them in a default event so nothing disappears.
+export async function seedDefaultEvent() {
+  const events = await storage.getAllEvents();
+  if (events.length) return;
+
+  const event = await storage.createEvent({ name: "Secret Santa" });
+  await storage.moveUnassignedParticipants(event.id);
+
+  console.log(`Seeded default event → ${event.name} (#${event.id})`);
+}
+
+// Wishlists used to be three fixed text slots; carry them over as items
+export async function migrateLegacyWishlists() {
+  const migrated = await storage.migrateLegacyWishlists();
+  if (migrated) console.log(`Migrated ${migrated} legacy wishlist(s) to items`);
+}
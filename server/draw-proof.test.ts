@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type { DrawInputs } from "@shared/schema";
+import {
+  commitPairs,
+  drawPredicate,
+  generateSeed,
+  isValidSeed,
+  runDraw,
+  samePairs,
+  seededRng,
+} from "./draw-proof";
+
+const seed = "0f".repeat(32);
+
+const inputs: DrawInputs = {
+  participantIds: [1, 2, 3, 4, 5, 6],
+  exclusions: [{ giverId: 1, receiverId: 2, bidirectional: true }],
+  history: [{ round: 1, giverId: 3, receiverId: 4 }],
+};
+
+describe("seeds", () => {
+  it("generates 32 random bytes as hex", () => {
+    const generated = generateSeed();
+    expect(isValidSeed(generated)).toBe(true);
+    expect(generateSeed()).not.toBe(generated);
+  });
+
+  it("rejects anything else", () => {
+    expect(isValidSeed("0f".repeat(31))).toBe(false);
+    expect(isValidSeed("0F".repeat(32))).toBe(false);
+    expect(isValidSeed(42)).toBe(false);
+  });
+});
+
+describe("seededRng", () => {
+  it("repeats the same stream for the same seed", () => {
+    const a = seededRng(seed);
+    const b = seededRng(seed);
+    const other = seededRng("1e".repeat(32));
+    const first = Array.from({ length: 10 }, a);
+    expect(Array.from({ length: 10 }, b)).toEqual(first);
+    expect(Array.from({ length: 10 }, other)).not.toEqual(first);
+  });
+
+  it("stays in [0, 1)", () => {
+    const next = seededRng(seed);
+    for (let i = 0; i < 1000; i++) {
+      const value = next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe("commitPairs", () => {
+  const pairs = [
+    { giverId: 2, receiverId: 1 },
+    { giverId: 1, receiverId: 2 },
+  ];
+
+  it("doesn't depend on the order of the pairs", () => {
+    expect(commitPairs(seed, pairs)).toBe(commitPairs(seed, [...pairs].reverse()));
+  });
+
+  it("changes with the seed and with the pairs", () => {
+    const commitment = commitPairs(seed, pairs);
+    expect(commitment).toMatch(/^[0-9a-f]{64}$/);
+    expect(commitPairs("1e".repeat(32), pairs)).not.toBe(commitment);
+    expect(commitPairs(seed, [{ giverId: 1, receiverId: 2 }])).not.toBe(commitment);
+  });
+});
+
+describe("runDraw", () => {
+  it("reproduces the same pairs from the same seed and inputs", () => {
+    const first = runDraw(inputs, seed);
+    const again = runDraw(inputs, seed);
+    if (!first.ok || !again.ok) throw new Error("draw failed");
+    expect(samePairs(first.pairs, again.pairs)).toBe(true);
+    expect(commitPairs(seed, again.pairs)).toBe(commitPairs(seed, first.pairs));
+  });
+
+  it("keeps the recorded rules", () => {
+    const result = runDraw({ ...inputs, gifts: 2 }, seed);
+    if (!result.ok) throw new Error(result.reason);
+    const isAllowed = drawPredicate(inputs);
+    expect(result.pairs).toHaveLength(12);
+    for (const p of result.pairs) expect(isAllowed(p.giverId, p.receiverId)).toBe(true);
+  });
+
+  it("applies the recorded group policy", () => {
+    const isAllowed = drawPredicate({
+      ...inputs,
+      groupPolicy: "different",
+      groups: { 1: "red", 3: "red", 4: "blue" },
+    });
+    expect(isAllowed(1, 4)).toBe(true);
+    expect(isAllowed(1, 3)).toBe(false);
+    expect(isAllowed(1, 5)).toBe(false); // 5 has no group
+  });
+});
+
+describe("samePairs", () => {
+  it("compares pairs as sets", () => {
+    const a = [
+      { giverId: 1, receiverId: 2 },
+      { giverId: 2, receiverId: 1 },
+    ];
+    expect(samePairs(a, [...a].reverse())).toBe(true);
+    expect(samePairs(a, a.slice(1))).toBe(false);
+    expect(samePairs(a, [a[0], { giverId: 2, receiverId: 3 }])).toBe(false);
+  });
+});
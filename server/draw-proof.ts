@@ -0,0 +1,89 @@
+// server/draw-proof.ts
+//
+// Seeded, reproducible draws. Every shuffle gets 32 bytes from the OS CSPRNG
+// as its seed; the matcher's randomness is an HMAC-SHA256 counter-mode
+// stream keyed by that seed. Re-running the matcher with the same seed and
+// the recorded inputs yields exactly the same pairs, which is how a past
+// draw is verified.
+import { createHash, createHmac, randomBytes } from "node:crypto";
+import type { DrawInputs } from "@shared/schema";
+import {
+  findMatching,
+  exclusionPredicate,
+  groupPredicate,
+  historyPreferences,
+  type IsAllowed,
+  type MatchParticipant,
+  type MatchResult,
+  type Pair,
+} from "./matcher";
+
+export function generateSeed() {
+  return randomBytes(32).toString("hex");
+}
+
+export function isValidSeed(seed: unknown): seed is string {
+  return typeof seed === "string" && /^[0-9a-f]{64}$/.test(seed);
+}
+
+// Uniform floats in [0, 1) with 53 bits of precision, like Math.random()
+export function seededRng(seed: string): () => number {
+  const key = Buffer.from(seed, "hex");
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  return () => {
+    if (offset + 8 > block.length) {
+      block = createHmac("sha256", key).update(String(counter++)).digest();
+      offset = 0;
+    }
+    const high = block.readUInt32BE(offset) >>> 5; // 27 bits
+    const low = block.readUInt32BE(offset + 4) >>> 6; // 26 bits
+    offset += 8;
+    return (high * 2 ** 26 + low) / 2 ** 53;
+  };
+}
+
+// The seed doubles as a secret salt; without it, small groups would be
+// trivially brute-forced from the published hash.
+export function commitPairs(seed: string, pairs: Pair[]) {
+  const canonical = [...pairs]
+    .sort((a, b) => a.giverId - b.giverId || a.receiverId - b.receiverId)
+    .map((p) => `${p.giverId}>${p.receiverId}`)
+    .join(",");
+  return createHash("sha256").update(`${seed}|${canonical}`).digest("hex");
+}
+
+// Every hard constraint in the inputs: exclusion rules and group policy
+export function drawPredicate(inputs: DrawInputs): IsAllowed {
+  const excluded = exclusionPredicate(inputs.exclusions);
+  const grouped = groupPredicate(inputs.groupPolicy ?? "any", (id) => inputs.groups?.[id]);
+  return (g, r) => excluded(g, r) && grouped(g, r);
+}
+
+// Runs the matcher purely from recorded inputs. Shuffles and verification
+// both go through here so they can't drift apart.
+export function runDraw(
+  inputs: DrawInputs,
+  seed: string,
+  participants: MatchParticipant[] = inputs.participantIds.map((id) => ({
+    id,
+    username: `#${id}`,
+  }))
+): MatchResult {
+  return findMatching(participants, drawPredicate(inputs), {
+    preferences: historyPreferences(inputs.history),
+    rng: seededRng(seed),
+    gifts: inputs.gifts ?? 1,
+  });
+}
+
+export function samePairs(a: Pair[], b: Pair[]) {
+  const key = (pairs: Pair[]) =>
+    pairs
+      .map((p) => `${p.giverId}>${p.receiverId}`)
+      .sort()
+      .join(",");
+  return a.length === b.length && key(a) === key(b);
+}
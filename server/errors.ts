@@ -0,0 +1,6 @@
+// server/errors.ts
+//
+// Errors the storage layer throws for the routes to map onto HTTP statuses.
+
+// A write was based on state that has since changed (409)
+export class ConflictError extends Error {}
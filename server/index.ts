@@ -5,7 +5,7 @@ import { serveStatic } from "./static";
 import { createServer } from "http";
 
 import { setupAuth } from "./auth";     // ⭐ ADD
-import { seedAdmin } from "./db"; // ⭐ ADD
+import { seedAdmin, seedDefaultEvent, migrateLegacyWishlists } from "./db"; // ⭐ ADD
 
 const app = express();
 const httpServer = createServer(app);
@@ -37,6 +37,26 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Responses that must never reach the log: secrets that are shown once,
+// and message threads, which next to assignment ids would tell the
+// operator (usually the admin) who wrote what.
+const UNLOGGED_BODIES: RegExp[] = [
+  /^\/api\/my-assignments(\/|$)/,
+  /^\/api\/my-santas(\/|$)/,
+  /^\/api\/events\/\d+\/invites$/, // carries the new invite's token
+  /^\/api\/events\/\d+\/participants\/\d+\/password-reset$/,
+  /^\/api\/me\/totp(\/|$)/, // two-factor secrets and recovery codes
+  /^\/api\/events\/\d+\/draws$/, // seeds reproduce the pairings
+];
+
+// Link tokens in the path are as good as a password while they are live
+const TOKEN_PATHS: RegExp[] = [
+  /^(\/api\/invites\/)[^/]+/,
+  /^(\/api\/password-reset\/)[^/]+/,
+];
+const redactPath = (path: string) =>
+  TOKEN_PATHS.reduce((p, re) => p.replace(re, "$1[token]"), path);
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -51,8 +71,8 @@ app.use((req, res, next) => {
   res.on("finish", () => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      let logLine = `${req.method} ${redactPath(path)} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse && !UNLOGGED_BODIES.some((re) => re.test(path))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -70,6 +90,8 @@ app.use((req, res, next) => {
 (async () => {
   // ⭐ Seed admin user BEFORE anything else
   await seedAdmin();
+  await seedDefaultEvent();
+  await migrateLegacyWishlists();
 
   // ⭐ Register simple stateless auth (login/logout)
   setupAuth(app);
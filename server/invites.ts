@@ -0,0 +1,14 @@
+// server/invites.ts
+import type { Invite, InviteStatus, InviteSummary } from "@shared/schema";
+
+// Used and revoked win over expired, so the history stays accurate
+export function inviteStatus(invite: Invite, now = new Date()): InviteStatus {
+  if (invite.usedAt) return "used";
+  if (invite.revokedAt) return "revoked";
+  return invite.expiresAt <= now ? "expired" : "pending";
+}
+
+export function toInviteSummary(invite: Invite): InviteSummary {
+  const { tokenHash: _tokenHash, ...summary } = invite;
+  return { ...summary, status: inviteStatus(invite) };
+}
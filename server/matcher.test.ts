@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import {
+  bypassPairs,
+  cycleLengths,
+  exclusionPredicate,
+  findMatching,
+  groupPredicate,
+  historyPreferences,
+  splicedPairs,
+  splicePairs,
+  type IsAllowed,
+  type MatchParticipant,
+  type Pair,
+} from "./matcher";
+
+// Small deterministic generator so failures reproduce
+function rng(seed = 1) {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2 ** 31;
+    return state / 2 ** 31;
+  };
+}
+
+const people = (n: number): MatchParticipant[] =>
+  Array.from({ length: n }, (_, i) => ({ id: i + 1, username: `p${i + 1}` }));
+
+const anyone: IsAllowed = (g, r) => g !== r;
+
+// Everyone gives and receives `gifts` times, never to themselves or twice
+// to the same person, and every pair is allowed
+function expectValid(pairs: Pair[], n: number, isAllowed: IsAllowed, gifts = 1) {
+  expect(pairs).toHaveLength(n * gifts);
+  for (let id = 1; id <= n; id++) {
+    expect(pairs.filter((p) => p.giverId === id)).toHaveLength(gifts);
+    expect(pairs.filter((p) => p.receiverId === id)).toHaveLength(gifts);
+  }
+  expect(new Set(pairs.map((p) => `${p.giverId}>${p.receiverId}`)).size).toBe(pairs.length);
+  for (const p of pairs) expect(isAllowed(p.giverId, p.receiverId)).toBe(true);
+}
+
+describe("findMatching", () => {
+  it("draws one cycle through everyone when nothing is excluded", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const result = findMatching(people(7), anyone, { rng: rng(seed) });
+      if (!result.ok) throw new Error(result.reason);
+      expectValid(result.pairs, 7, anyone);
+      expect(cycleLengths(result.pairs)).toEqual([7]);
+    }
+  });
+
+  it("respects exclusions in both directions", () => {
+    const isAllowed = exclusionPredicate([
+      { giverId: 1, receiverId: 2, bidirectional: true },
+      { giverId: 3, receiverId: 4, bidirectional: false },
+    ]);
+    for (let seed = 1; seed <= 20; seed++) {
+      const result = findMatching(people(5), isAllowed, { rng: rng(seed) });
+      if (!result.ok) throw new Error(result.reason);
+      expectValid(result.pairs, 5, isAllowed);
+    }
+  });
+
+  it("falls back to smaller cycles when no single cycle exists", () => {
+    // Two couples who may only give within their couple
+    const isAllowed: IsAllowed = (g, r) => g !== r && Math.ceil(g / 2) === Math.ceil(r / 2);
+    const result = findMatching(people(4), isAllowed, { rng: rng() });
+    if (!result.ok) throw new Error(result.reason);
+    expectValid(result.pairs, 4, isAllowed);
+    expect(cycleLengths(result.pairs)).toEqual([2, 2]);
+  });
+
+  it("names who blocks an impossible draw", () => {
+    const isAllowed = exclusionPredicate([
+      { giverId: 1, receiverId: 2, bidirectional: false },
+      { giverId: 1, receiverId: 3, bidirectional: false },
+    ]);
+    const result = findMatching(people(3), isAllowed, { rng: rng() });
+    expect(result).toEqual({
+      ok: false,
+      reason: "No valid matching exists: p1 isn't allowed to give to anyone else",
+    });
+  });
+
+  it("stacks several gifts per person without repeating a pair", () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const result = findMatching(people(6), anyone, { rng: rng(seed), gifts: 3 });
+      if (!result.ok) throw new Error(result.reason);
+      expectValid(result.pairs, 6, anyone, 3);
+    }
+  });
+
+  it("needs more participants than gifts", () => {
+    const result = findMatching(people(3), anyone, { rng: rng(), gifts: 3 });
+    expect(result).toEqual({ ok: false, reason: "3 gifts per person needs at least 4 participants" });
+  });
+
+  it("keeps preferences when it can and drops the least important first", () => {
+    // Last round's ring 1 → 2 → 3 → 1 leaves only the reverse ring; the
+    // round before that ruled out the reverse ring too
+    const preferences = historyPreferences([
+      { round: 2, giverId: 1, receiverId: 2 },
+      { round: 2, giverId: 2, receiverId: 3 },
+      { round: 2, giverId: 3, receiverId: 1 },
+      { round: 1, giverId: 1, receiverId: 3 },
+      { round: 1, giverId: 3, receiverId: 2 },
+      { round: 1, giverId: 2, receiverId: 1 },
+    ]);
+    expect(preferences.map((p) => p.label)).toEqual([
+      "Allowed repeats of round 2 pairings",
+      "Allowed repeats of round 1 pairings",
+    ]);
+
+    const result = findMatching(people(3), anyone, { rng: rng(), preferences });
+    if (!result.ok) throw new Error(result.reason);
+    expect(result.relaxed).toEqual(["Allowed repeats of round 1 pairings"]);
+    expect(result.pairs.map((p) => [p.giverId, p.receiverId]).sort()).toEqual([[1, 3], [2, 1], [3, 2]]);
+  });
+});
+
+describe("groupPredicate", () => {
+  const groups: Record<number, string> = { 1: "red", 2: "red", 3: "blue" };
+  const groupOf = (id: number) => groups[id];
+
+  it("keeps givers inside or outside their group", () => {
+    expect(groupPredicate("same", groupOf)(1, 2)).toBe(true);
+    expect(groupPredicate("same", groupOf)(1, 3)).toBe(false);
+    expect(groupPredicate("different", groupOf)(1, 3)).toBe(true);
+    expect(groupPredicate("different", groupOf)(1, 2)).toBe(false);
+  });
+
+  it("only lets ungrouped participants through the any policy", () => {
+    expect(groupPredicate("any", groupOf)(1, 4)).toBe(true);
+    expect(groupPredicate("same", groupOf)(4, 4)).toBe(false);
+    expect(groupPredicate("different", groupOf)(1, 4)).toBe(false);
+  });
+});
+
+describe("bypassPairs", () => {
+  const ring: Pair[] = [1, 2, 3, 4].map((id) => ({ giverId: id, receiverId: (id % 4) + 1 }));
+
+  it("hands a leaver's recipient to whoever gave to them", () => {
+    expect(bypassPairs(ring, 2, anyone, rng())).toEqual([{ giverId: 1, receiverId: 3 }]);
+  });
+
+  it("returns null when the rules forbid the repair", () => {
+    const isAllowed = exclusionPredicate([{ giverId: 1, receiverId: 3, bidirectional: false }]);
+    expect(bypassPairs(ring, 2, isAllowed, rng())).toBeNull();
+  });
+});
+
+describe("splicePairs", () => {
+  const ring: Pair[] = [1, 2, 3, 4].map((id) => ({ giverId: id, receiverId: (id % 4) + 1 }));
+
+  it("picks distinct pairs for the newcomer to split", () => {
+    const chosen = splicePairs(ring, 5, 2, anyone, rng())!;
+    expect(chosen).toHaveLength(2);
+    expect(new Set(chosen.map((p) => p.giverId)).size).toBe(2);
+    expect(new Set(chosen.map((p) => p.receiverId)).size).toBe(2);
+  });
+
+  it("only splits pairs the newcomer may join", () => {
+    const isAllowed: IsAllowed = (g, r) => g !== r && g !== 1 && r !== 1;
+    // Only 2 → 3 and 3 → 4 stay clear of 1
+    expect(splicePairs(ring, 5, 2, isAllowed, rng())).toHaveLength(2);
+    expect(splicePairs(ring, 5, 3, isAllowed, rng())).toBeNull();
+  });
+});
+
+describe("splicedPairs", () => {
+  it("puts the newcomer between each split giver and recipient", () => {
+    expect(splicedPairs([{ giverId: 1, receiverId: 2 }], 5)).toEqual([
+      { giverId: 1, receiverId: 5 },
+      { giverId: 5, receiverId: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,382 @@
+// server/matcher.ts
+//
+// Constraint-aware Secret Santa matching. Given the participants and a
+// predicate telling which giver → receiver pairs are allowed, find an
+// assignment where everybody gives exactly once and receives exactly once.
+//
+// We first look for a single cycle through everyone (the classic "pass it
+// around the circle" draw, same shape as Sattolo's algorithm). Dense
+// exclusions can make that impossible or expensive to find, so we fall back
+// to any valid derangement (several smaller cycles). If even that does not
+// exist the result explains which people block the draw.
+//
+// With k gifts per person the draw is k such layers stacked on top of each
+// other, each one avoiding the pairs already used. Every k-regular solution
+// splits into k layers, but an unlucky early layer can box in a later one,
+// so the whole stack is retried a few times before giving up.
+//
+// Preferences are soft constraints (e.g. "don't repeat last year's pairs").
+// They are honoured when possible and dropped one at a time, least important
+// first, when they make the draw impossible; the result lists what was
+// relaxed.
+import type { GroupPolicy } from "@shared/schema";
+
+export type MatchParticipant = { id: number; username: string };
+export type Pair = { giverId: number; receiverId: number };
+export type IsAllowed = (giverId: number, receiverId: number) => boolean;
+
+export type Preference = { label: string; isAllowed: IsAllowed };
+
+export type MatchOptions = {
+  preferences?: Preference[]; // most important first
+  rng: () => number; // see draw-proof.ts for the seeded CSPRNG stream
+  gifts?: number; // gifts each person gives and receives, default 1
+};
+
+export type MatchResult =
+  | { ok: true; pairs: Pair[]; relaxed: string[] }
+  | { ok: false; reason: string };
+
+// A "must not give to" rule as stored per event
+export type ExclusionRule = {
+  giverId: number;
+  receiverId: number;
+  bidirectional: boolean;
+};
+
+const pairKey = (giverId: number, receiverId: number) =>
+  `${giverId}->${receiverId}`;
+
+export function exclusionPredicate(rules: ExclusionRule[]): IsAllowed {
+  const forbidden = new Set<string>();
+  for (const rule of rules) {
+    forbidden.add(pairKey(rule.giverId, rule.receiverId));
+    if (rule.bidirectional) forbidden.add(pairKey(rule.receiverId, rule.giverId));
+  }
+  return (giverId, receiverId) =>
+    giverId !== receiverId && !forbidden.has(pairKey(giverId, receiverId));
+}
+
+// Hard constraint from the event's group policy. Participants without a
+// group only pass the "any" policy; readiness checks flag them earlier.
+export function groupPredicate(
+  policy: GroupPolicy,
+  groupOf: (id: number) => string | undefined
+): IsAllowed {
+  if (policy === "any") return () => true;
+  return (giverId, receiverId) => {
+    const giver = groupOf(giverId);
+    const receiver = groupOf(receiverId);
+    if (giver === undefined || receiver === undefined) return false;
+    return policy === "same" ? giver === receiver : giver !== receiver;
+  };
+}
+
+function shuffled<T>(items: T[], rng: () => number) {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+// Randomised depth-first search for a Hamiltonian cycle. Gives up after
+// `budget` steps so pathological constraint sets can't hang a request.
+function findSingleCycle(
+  ids: number[],
+  isAllowed: IsAllowed,
+  rng: () => number,
+  budget = 20000
+): number[] | null {
+  const order = shuffled(ids, rng);
+  const start = order[0];
+  const path = [start];
+  const used = new Set(path);
+  let steps = 0;
+
+  const extend = (): boolean => {
+    if (++steps > budget) return false;
+    const last = path[path.length - 1];
+    if (path.length === ids.length) return isAllowed(last, start);
+
+    for (const next of shuffled(order, rng)) {
+      if (used.has(next) || !isAllowed(last, next)) continue;
+      path.push(next);
+      used.add(next);
+      if (extend()) return true;
+      path.pop();
+      used.delete(next);
+      if (steps > budget) return false;
+    }
+    return false;
+  };
+
+  return extend() ? path : null;
+}
+
+// Bipartite matching (Kuhn's augmenting paths) that gives every giver a
+// receiver. On failure returns the Hall's-theorem witness: a group of givers
+// whose allowed receivers are fewer than the group itself.
+function matchGivers(
+  givers: number[],
+  receivers: number[],
+  isAllowed: IsAllowed,
+  rng: () => number
+): { pairs: Pair[] } | { givers: number[]; receivers: number[] } {
+  const receiverOf = new Map<number, number>(); // giver -> receiver
+  const giverOf = new Map<number, number>(); // receiver -> giver
+  const candidates = new Map(
+    givers.map((g) => [g, shuffled(receivers, rng).filter((r) => isAllowed(g, r))])
+  );
+
+  for (const giver of shuffled(givers, rng)) {
+    const seenGivers = new Set<number>();
+    const seenReceivers = new Set<number>();
+
+    const augment = (g: number): boolean => {
+      seenGivers.add(g);
+      for (const r of candidates.get(g)!) {
+        if (seenReceivers.has(r)) continue;
+        seenReceivers.add(r);
+        const holder = giverOf.get(r);
+        if (holder === undefined || augment(holder)) {
+          receiverOf.set(g, r);
+          giverOf.set(r, g);
+          return true;
+        }
+      }
+      return false;
+    };
+
+    if (!augment(giver)) {
+      return {
+        givers: Array.from(seenGivers),
+        receivers: Array.from(seenReceivers),
+      };
+    }
+  }
+
+  return {
+    pairs: givers.map((giverId) => ({ giverId, receiverId: receiverOf.get(giverId)! })),
+  };
+}
+
+function explainFailure(
+  participants: MatchParticipant[],
+  isAllowed: IsAllowed,
+  witness: { givers: number[]; receivers: number[] },
+  gifts: number
+) {
+  const name = new Map(participants.map((p) => [p.id, p.username]));
+  const list = (ids: number[]) => ids.map((id) => name.get(id)).join(", ");
+  const options = (allowed: (other: MatchParticipant) => boolean) =>
+    participants.filter(allowed).length;
+  const people = (n: number) => (n === 1 ? "1 person" : `${n} people`);
+
+  const stuckGiver = participants.find(
+    (g) => options((r) => isAllowed(g.id, r.id)) < gifts
+  );
+  if (stuckGiver) {
+    return gifts === 1
+      ? `${stuckGiver.username} isn't allowed to give to anyone else`
+      : `${stuckGiver.username} may give to only ${people(options((r) => isAllowed(stuckGiver.id, r.id)))}, fewer than ${gifts} gifts`;
+  }
+
+  const stuckReceiver = participants.find(
+    (r) => options((g) => isAllowed(g.id, r.id)) < gifts
+  );
+  if (stuckReceiver) {
+    return gifts === 1
+      ? `Nobody is allowed to give to ${stuckReceiver.username}`
+      : `Only ${people(options((g) => isAllowed(g.id, stuckReceiver.id)))} may give to ${stuckReceiver.username}, fewer than ${gifts} gifts`;
+  }
+
+  if (witness.givers.length === 0) {
+    return `no way was found for everyone to give ${gifts} gifts within the exclusions`;
+  }
+
+  return (
+    `${list(witness.givers)} can only give to ${list(witness.receivers)} ` +
+    `(${witness.givers.length} givers for ${witness.receivers.length} recipients)`
+  );
+}
+
+function findLayer(ids: number[], isAllowed: IsAllowed, rng: () => number) {
+  const cycle = findSingleCycle(ids, isAllowed, rng);
+  if (cycle) {
+    return {
+      pairs: cycle.map((giverId, i) => ({
+        giverId,
+        receiverId: cycle[(i + 1) % cycle.length],
+      })),
+    };
+  }
+  return matchGivers(ids, ids, isAllowed, rng);
+}
+
+const STACK_RETRIES = 10;
+
+function attempt(
+  ids: number[],
+  isAllowed: IsAllowed,
+  rng: () => number,
+  gifts: number
+): { pairs: Pair[] } | { givers: number[]; receivers: number[] } {
+  for (let retry = 0; retry < (gifts === 1 ? 1 : STACK_RETRIES); retry++) {
+    const used = new Set<string>();
+    const pairs: Pair[] = [];
+
+    for (let layer = 0; layer < gifts; layer++) {
+      const result = findLayer(
+        ids,
+        (g, r) => isAllowed(g, r) && !used.has(pairKey(g, r)),
+        rng
+      );
+      if (!("pairs" in result)) {
+        if (layer === 0) return result;
+        break;
+      }
+      for (const p of result.pairs) used.add(pairKey(p.giverId, p.receiverId));
+      pairs.push(...result.pairs);
+    }
+
+    if (pairs.length === ids.length * gifts) return { pairs };
+  }
+  // Only a first-layer witness says something about the rules themselves
+  return { givers: [], receivers: [] };
+}
+
+export function findMatching(
+  participants: MatchParticipant[],
+  isAllowed: IsAllowed,
+  { preferences = [], rng, gifts = 1 }: MatchOptions
+): MatchResult {
+  const ids = participants.map((p) => p.id);
+  let witness = { givers: [] as number[], receivers: [] as number[] };
+
+  if (gifts >= ids.length) {
+    return {
+      ok: false,
+      reason: `${gifts} gifts per person needs at least ${gifts + 1} participants`,
+    };
+  }
+
+  for (let keep = preferences.length; keep >= 0; keep--) {
+    const active = preferences.slice(0, keep);
+    const allowed: IsAllowed = (g, r) =>
+      isAllowed(g, r) && active.every((p) => p.isAllowed(g, r));
+
+    const result = attempt(ids, allowed, rng, gifts);
+    if ("pairs" in result) {
+      return {
+        ok: true,
+        pairs: result.pairs,
+        relaxed: preferences.slice(keep).map((p) => p.label),
+      };
+    }
+    witness = result;
+  }
+
+  // Every preference was dropped, so the hard constraints alone are at fault
+  return {
+    ok: false,
+    reason: `No valid matching exists: ${explainFailure(participants, isAllowed, witness, gifts)}`,
+  };
+}
+
+// One preference per archived round, newest first, so the oldest history is
+// the first thing given up when the draw gets tight.
+export function historyPreferences(history: (Pair & { round: number })[]): Preference[] {
+  const rounds = Array.from(new Set(history.map((h) => h.round))).sort((a, b) => b - a);
+  return rounds.map((round) => {
+    const seen = new Set(
+      history.filter((h) => h.round === round).map((h) => pairKey(h.giverId, h.receiverId))
+    );
+    return {
+      label: `Allowed repeats of round ${round} pairings`,
+      isAllowed: (g, r) => !seen.has(pairKey(g, r)),
+    };
+  });
+}
+
+// Sizes of the giver → receiver cycles, largest first. A single entry equal
+// to the group size means one unbroken chain through everybody.
+export function cycleLengths(pairs: Pair[]) {
+  const next = new Map(pairs.map((p) => [p.giverId, p.receiverId]));
+  const visited = new Set<number>();
+  const lengths: number[] = [];
+
+  for (const { giverId } of pairs) {
+    if (visited.has(giverId)) continue;
+    let length = 0;
+    for (let id = giverId; !visited.has(id); id = next.get(id)!) {
+      visited.add(id);
+      length++;
+    }
+    lengths.push(length);
+  }
+  return lengths.sort((a, b) => b - a);
+}
+
+// Closes the gap a participant leaves in a draw: each of their givers takes
+// over one of their recipients, avoiding self-gifts, pairs that already
+// exist and the rules. With one gift each this is simply "whoever gave to
+// them now gives to their recipient". Null when no such repair exists.
+export function bypassPairs(
+  pairs: Pair[],
+  id: number,
+  isAllowed: IsAllowed,
+  rng: () => number
+): Pair[] | null {
+  const existing = new Set(pairs.map((p) => pairKey(p.giverId, p.receiverId)));
+  const givers = pairs.filter((p) => p.receiverId === id).map((p) => p.giverId);
+  const recipients = pairs.filter((p) => p.giverId === id).map((p) => p.receiverId);
+
+  const result = matchGivers(
+    givers,
+    recipients,
+    (g, r) => isAllowed(g, r) && !existing.has(pairKey(g, r)),
+    rng
+  );
+  return "pairs" in result ? result.pairs : null;
+}
+
+// Picks `gifts` drawn pairs A → B to split so `id` can join as A → id → B
+// without touching anyone else. The A's and the B's must all differ so the
+// newcomer gives and receives `gifts` distinct times. Null if no choice
+// keeps every rule.
+export function splicePairs(
+  pairs: Pair[],
+  id: number,
+  gifts: number,
+  isAllowed: IsAllowed,
+  rng: () => number
+): Pair[] | null {
+  const candidates = pairs.filter(
+    (p) => isAllowed(p.giverId, id) && isAllowed(id, p.receiverId)
+  );
+
+  for (let retry = 0; retry < STACK_RETRIES; retry++) {
+    const givers = new Set<number>();
+    const receivers = new Set<number>();
+    const chosen: Pair[] = [];
+
+    for (const p of shuffled(candidates, rng)) {
+      if (givers.has(p.giverId) || receivers.has(p.receiverId)) continue;
+      givers.add(p.giverId);
+      receivers.add(p.receiverId);
+      chosen.push(p);
+      if (chosen.length === gifts) return chosen;
+    }
+  }
+  return null;
+}
+
+// The pairs a splice creates: A → id and id → B for every split A → B
+export function splicedPairs(splits: Pair[], id: number): Pair[] {
+  return splits.flatMap(({ giverId, receiverId }) => [
+    { giverId, receiverId: id },
+    { giverId: id, receiverId },
+  ]);
+}
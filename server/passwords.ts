@@ -0,0 +1,46 @@
+// server/passwords.ts
+import { scrypt, randomBytes, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number
+) => Promise<Buffer>;
+
+const PREFIX = "scrypt";
+const KEY_LENGTH = 64;
+
+// Stored as "scrypt$<salt hex>$<key hex>"; anything else is a legacy
+// plaintext value from before hashing was introduced.
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${PREFIX}$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+export function isHashed(stored: string) {
+  return stored.startsWith(`${PREFIX}$`);
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  if (!isHashed(stored)) {
+    const a = Buffer.from(password);
+    const b = Buffer.from(stored);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, saltHex, keyHex] = stored.split("$");
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Burns the same time as a real check so unknown usernames aren't
+// distinguishable by response latency.
+let dummyHash: Promise<string> | null = null;
+export async function verifyDummyPassword(password: string) {
+  dummyHash ??= hashPassword("not-a-real-password");
+  await verifyPassword(password, await dummyHash);
+  return false;
+}
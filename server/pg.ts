@@ -0,0 +1,14 @@
+// server/pg.ts
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+// Connection pool is only created when a database is configured, so the
+// in-memory backend keeps working without Postgres installed locally.
+export const pool = process.env.DATABASE_URL
+  ? new pg.Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+
+export const db = pool ? drizzle(pool, { schema }) : null;
+
+export type Db = NonNullable<typeof db>;
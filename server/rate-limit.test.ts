@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { LoginLimiter, MemoryRateLimitStore } from "./rate-limit";
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+const limiter = () => new LoginLimiter(new MemoryRateLimitStore());
+
+// Times are offsets from now, since the store expires entries by the clock
+const t0 = Date.now();
+
+describe("account back-off", () => {
+  it("allows a few attempts, then doubles the wait", async () => {
+    const limits = limiter();
+    const now = t0;
+    for (let i = 0; i < 3; i++) expect(await limits.attempt("alice", now)).toBe(0);
+
+    // The third failure started a 1 s back-off
+    expect(await limits.attempt("alice", now)).toBe(SECOND);
+    expect(await limits.attempt("alice", now + SECOND)).toBe(0);
+    expect(await limits.attempt("alice", now + SECOND)).toBe(2 * SECOND);
+  });
+
+  it("locks the account after ten failures in a row", async () => {
+    const limits = limiter();
+    let now = t0;
+    for (let i = 0; i < 9; i++) {
+      now += 5 * MINUTE;
+      expect(await limits.attempt("alice", now)).toBe(0);
+    }
+    // The ninth failure started a 2^6 s back-off, the tenth a lock
+    expect(await limits.attempt("alice", now)).toBe(64 * SECOND);
+    now += 64 * SECOND;
+    expect(await limits.attempt("alice", now)).toBe(0);
+    expect(await limits.attempt("alice", now)).toBe(15 * MINUTE);
+  });
+
+  it("caps the back-off", async () => {
+    const limits = new LoginLimiter(new MemoryRateLimitStore(), { backoffMaxMs: 3 * SECOND });
+    // Spaced out so no attempt is blocked; the fifth would wait 4 s
+    for (let i = 0; i < 5; i++) await limits.attempt("alice", t0 + i * MINUTE);
+    expect(await limits.attempt("alice", t0 + 4 * MINUTE)).toBe(3 * SECOND);
+  });
+
+  it("ignores the case of the username", async () => {
+    const limits = limiter();
+    for (const name of ["alice", "Alice", "ALICE"]) await limits.attempt(name, t0);
+    expect(await limits.attempt("aLiCe", t0)).toBe(SECOND);
+  });
+
+  it("starts over after a success", async () => {
+    const limits = limiter();
+    for (let i = 0; i < 3; i++) await limits.attempt("alice", t0);
+    await limits.recordSuccess("alice");
+    expect(await limits.attempt("alice", t0)).toBe(0);
+    expect(await limits.lockouts(t0)).toEqual([
+      { kind: "account", key: "alice", failures: 1, lockedUntil: null },
+    ]);
+  });
+
+  it("counts a right password followed by a code as one attempt", async () => {
+    const limits = limiter();
+    for (let i = 0; i < 2; i++) await limits.attempt("alice", t0);
+    // The password step would start the back-off, but it was right
+    expect(await limits.attempt("alice", t0)).toBe(0);
+    await limits.refund("alice");
+    // so the code step isn't held up by it, and a wrong code counts once
+    expect(await limits.attempt("alice", t0)).toBe(0);
+    expect(await limits.lockouts(t0)).toEqual([
+      { kind: "account", key: "alice", failures: 3, lockedUntil: new Date(t0 + SECOND) },
+    ]);
+  });
+
+  it("counts concurrent attempts before any of them is checked", async () => {
+    const limits = limiter();
+    // Like the login route: reserve, then a slow password check that fails
+    const login = async () => {
+      if (await limits.attempt("alice")) return 429;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return 401;
+    };
+    const statuses = await Promise.all(Array.from({ length: 30 }, login));
+    expect(statuses.filter((s) => s === 401)).toHaveLength(3);
+    expect(statuses.filter((s) => s === 429)).toHaveLength(27);
+  });
+});
+
+describe("IP window", () => {
+  it("blocks for the rest of the window once it is used up", async () => {
+    const limits = new LoginLimiter(new MemoryRateLimitStore(), { ipMaxFailures: 2 });
+    expect(await limits.attemptIp("10.0.0.1", t0)).toBe(0);
+    expect(await limits.attemptIp("10.0.0.1", t0)).toBe(0);
+    expect(await limits.attemptIp("10.0.0.1", t0 + MINUTE)).toBe(14 * MINUTE);
+    expect(await limits.attemptIp("10.0.0.2", t0 + MINUTE)).toBe(0);
+
+    expect(await limits.lockouts(t0 + MINUTE)).toEqual([
+      { kind: "ip", key: "10.0.0.1", failures: 3, lockedUntil: new Date(t0 + 15 * MINUTE) },
+    ]);
+    await limits.clear("ip", "10.0.0.1");
+    expect(await limits.attemptIp("10.0.0.1", t0 + MINUTE)).toBe(0);
+  });
+
+  it("only counts attempts that aren't refunded", async () => {
+    const limits = new LoginLimiter(new MemoryRateLimitStore(), { ipMaxFailures: 2 });
+    // Plenty of people signing in from behind one address
+    for (let i = 0; i < 10; i++) {
+      expect(await limits.attemptIp("10.0.0.1", t0)).toBe(0);
+      await limits.refundIp("10.0.0.1");
+    }
+    expect(await limits.attemptIp("10.0.0.1", t0)).toBe(0);
+    expect(await limits.attemptIp("10.0.0.1", t0)).toBe(0);
+    expect(await limits.attemptIp("10.0.0.1", t0)).toBe(15 * MINUTE);
+  });
+});
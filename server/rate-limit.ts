@@ -0,0 +1,225 @@
+// server/rate-limit.ts
+//
+// Brute-force protection for the sign-in endpoints. Two counters per
+// attempt:
+//   - per IP: a fixed window of failed attempts, so one client can't spray
+//     passwords across many accounts, while people signing in successfully
+//     from behind the same NAT never use it up;
+//   - per account: consecutive failures, with exponential back-off after
+//     a few free tries and a temporary lock after repeated ones, so a
+//     distributed guesser still can't hammer one account.
+// Counters live in a RateLimitStore; the in-process one is the default, and
+// a shared store can be dropped in when running more than one server.
+import type { RequestHandler, Response } from "express";
+import type { LockoutSummary } from "@shared/schema";
+
+export type LimitEntry = {
+  count: number; // failures in the window (IP) or in a row (account)
+  blockedUntil: number; // epoch ms; 0 when not blocked
+  expiresAt: number; // epoch ms after which the entry is forgotten
+};
+
+export interface RateLimitStore {
+  // Reads, changes and writes one entry as a single step, so concurrent
+  // attempts can't all pass a check before any of them is counted.
+  // `change` gets null for a missing or expired entry; returning null
+  // deletes it.
+  update(
+    key: string,
+    change: (entry: LimitEntry | null) => LimitEntry | null
+  ): Promise<LimitEntry | null>;
+  delete(key: string): Promise<void>;
+  entries(): Promise<[string, LimitEntry][]>; // live entries only
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private map = new Map<string, LimitEntry>();
+
+  constructor(sweepMs = 60_000) {
+    // Expired entries are dropped lazily too; this just bounds memory
+    setInterval(() => this.sweep(), sweepMs).unref();
+  }
+
+  private sweep(now = Date.now()) {
+    this.map.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.map.delete(key);
+    });
+  }
+
+  // No awaits between the read and the write
+  async update(key: string, change: (entry: LimitEntry | null) => LimitEntry | null) {
+    const current = this.map.get(key);
+    const live = current && current.expiresAt > Date.now() ? { ...current } : null;
+    const next = change(live);
+    if (next) this.map.set(key, { ...next });
+    else this.map.delete(key);
+    return next;
+  }
+
+  async delete(key: string) {
+    this.map.delete(key);
+  }
+
+  async entries() {
+    this.sweep();
+    return Array.from(this.map.entries());
+  }
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+export type LoginLimiterOptions = {
+  ipWindowMs: number;
+  ipMaxFailures: number;
+  freeFailures: number; // failures before back-off starts
+  backoffBaseMs: number; // first delay; doubles with each further failure
+  backoffMaxMs: number;
+  lockAfterFailures: number;
+  lockMs: number;
+  failureMemoryMs: number; // how long a failure streak is remembered
+};
+
+const DEFAULT_OPTIONS: LoginLimiterOptions = {
+  ipWindowMs: 15 * MINUTE,
+  ipMaxFailures: 50,
+  freeFailures: 3,
+  backoffBaseMs: SECOND,
+  backoffMaxMs: 5 * MINUTE,
+  lockAfterFailures: 10,
+  lockMs: 15 * MINUTE,
+  failureMemoryMs: 24 * 60 * MINUTE,
+};
+
+const ipKey = (ip: string) => `ip:${ip}`;
+// Usernames are matched exactly at login, but the limit shouldn't be
+// sidestepped by changing case
+const accountKey = (username: string) => `account:${username.toLowerCase()}`;
+
+export class LoginLimiter {
+  private options: LoginLimiterOptions;
+
+  constructor(
+    private store: RateLimitStore = new MemoryRateLimitStore(),
+    options: Partial<LoginLimiterOptions> = {}
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  // Counts an attempt from this IP before it is checked. Returns how long
+  // to wait (ms) if the IP is blocked, otherwise 0. refundIp() takes the
+  // attempt back if it succeeds, so only failures add up.
+  async attemptIp(ip: string, now = Date.now()) {
+    let wait = 0;
+    await this.store.update(ipKey(ip), (current) => {
+      const entry = current ?? { count: 0, blockedUntil: 0, expiresAt: now + this.options.ipWindowMs };
+      if (entry.blockedUntil <= now) {
+        entry.count++;
+        if (entry.count > this.options.ipMaxFailures) entry.blockedUntil = entry.expiresAt;
+      }
+      wait = Math.max(0, entry.blockedUntil - now);
+      return entry;
+    });
+    return wait;
+  }
+
+  async refundIp(ip: string) {
+    await this.store.update(ipKey(ip), (entry) =>
+      entry && { ...entry, count: Math.max(0, entry.count - 1) }
+    );
+  }
+
+  // Counts a sign-in attempt against the account as a failure before the
+  // password or code is checked; recordSuccess() clears the streak and
+  // refund() takes back just this attempt. Returns how long to wait (ms) if
+  // the account is backing off, otherwise 0.
+  async attempt(username: string, now = Date.now()) {
+    const { freeFailures, backoffBaseMs, backoffMaxMs, lockAfterFailures, lockMs } = this.options;
+    let wait = 0;
+    await this.store.update(accountKey(username), (current) => {
+      const entry = current ?? { count: 0, blockedUntil: 0, expiresAt: 0 };
+      if (entry.blockedUntil > now) {
+        wait = entry.blockedUntil - now;
+        return entry;
+      }
+
+      entry.count++;
+      entry.expiresAt = now + this.options.failureMemoryMs;
+      if (entry.count >= lockAfterFailures) {
+        entry.blockedUntil = now + lockMs;
+      } else if (entry.count >= freeFailures) {
+        const delay = backoffBaseMs * 2 ** (entry.count - freeFailures);
+        entry.blockedUntil = now + Math.min(delay, backoffMaxMs);
+      }
+      return entry;
+    });
+    return wait;
+  }
+
+  // For a step that succeeded without finishing the sign-in. The attempt
+  // passed its check, so any back-off now in place started with it.
+  async refund(username: string) {
+    await this.store.update(accountKey(username), (entry) =>
+      entry && { ...entry, count: Math.max(0, entry.count - 1), blockedUntil: 0 }
+    );
+  }
+
+  // A full sign-in clears the account's failure streak
+  async recordSuccess(username: string) {
+    await this.store.delete(accountKey(username));
+  }
+
+  // Accounts with failures on record and IPs that are currently blocked
+  async lockouts(now = Date.now()): Promise<LockoutSummary[]> {
+    const summaries: LockoutSummary[] = [];
+    for (const [key, entry] of await this.store.entries()) {
+      const [kind, ...rest] = key.split(":");
+      const blocked = entry.blockedUntil > now;
+      if (kind === "ip" && !blocked) continue;
+      summaries.push({
+        kind: kind === "ip" ? "ip" : "account",
+        key: rest.join(":"),
+        failures: entry.count,
+        lockedUntil: blocked ? new Date(entry.blockedUntil) : null,
+      });
+    }
+    return summaries;
+  }
+
+  async clear(kind: LockoutSummary["kind"], key: string) {
+    await this.store.delete(kind === "ip" ? ipKey(key) : accountKey(key));
+  }
+}
+
+export const loginLimiter = new LoginLimiter();
+
+// Every throttled response looks the same: 429, Retry-After in whole
+// seconds, and the wait in the message
+export function sendTooManyRequests(res: Response, waitMs: number) {
+  const seconds = Math.max(1, Math.ceil(waitMs / 1000));
+  const wait =
+    seconds === 1 ? "1 second"
+    : seconds < 120 ? `${seconds} seconds`
+    : `${Math.ceil(seconds / 60)} minutes`;
+  res.set("Retry-After", String(seconds));
+  res.status(429).json({
+    message: `Too many attempts. Try again in ${wait}.`,
+    retryAfter: seconds,
+  });
+}
+
+// Per-IP throttle for endpoints that take a guessable secret. Any response
+// below 400 counts as a success and gives the attempt back.
+export const throttleIp: RequestHandler = async (req, res, next) => {
+  try {
+    const ip = req.ip ?? "unknown";
+    const wait = await loginLimiter.attemptIp(ip);
+    if (wait) return sendTooManyRequests(res, wait);
+    res.on("finish", () => {
+      if (res.statusCode < 400) loginLimiter.refundIp(ip).catch(() => {});
+    });
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
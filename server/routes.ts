@@ -1,48 +1,272 @@
 // server/routes.ts
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { setupAuth } from "./auth";
+import { storage, toSafeUser } from "./storage";
+import { ConflictError } from "./errors";
+import { requireAuth, requireAdmin, startSession } from "./auth";
+import { hashPassword } from "./passwords";
+import { cycleLengths, bypassPairs, splicePairs } from "./matcher";
+import { changesSince } from "./wishlist-diff";
+import { generateToken, hashToken } from "./tokens";
+import { inviteStatus, toInviteSummary } from "./invites";
+import { loginLimiter, throttleIp } from "./rate-limit";
+import {
+  generateSeed,
+  isValidSeed,
+  seededRng,
+  drawPredicate,
+  runDraw,
+  commitPairs,
+  samePairs,
+} from "./draw-proof";
+import {
+  insertEventSchema,
+  updateEventSchema,
+  insertExclusionSchema,
+  participantGroupSchema,
+  updateWishlistSchema,
+  sendMessageSchema,
+  updateProfileSchema,
+  createInviteSchema,
+  redeemInviteSchema,
+  type Event,
+  type Draw,
+  type DrawInputs,
+  type DrawAudit,
+  type DrawSummary,
+  type ShufflePreview,
+  type UserWithWishlist,
+  type Message,
+  type ThreadMessage,
+  type SantaThread,
+  type Profile,
+  type AssignmentView,
+  type InvitePreview,
+} from "@shared/schema";
+import { fromZodError } from "zod-validation-error";
 
+declare global {
+  namespace Express {
+    interface Request {
+      event?: Event;
+    }
+  }
+}
+
+// The draw participants are currently matched by, if any
+async function getCurrentDraw(event: Event) {
+  if (!event.shuffleCompleted) return null;
+  const draws = await storage.getDrawsByEvent(event.id);
+  return draws[draws.length - 1] ?? null;
+}
+
+// True while the user's draw is committed but not yet revealed; their
+// assignments and messages stay hidden until then
+async function drawSealedFor(userId: number) {
+  const user = await storage.getUser(userId);
+  const event = user?.eventId ? await storage.getEvent(user.eventId) : null;
+  const draw = event ? await getCurrentDraw(event) : null;
+  return !!draw && !draw.revealedAt;
+}
+
+// Either side's view of a thread. The direction is all that's stored, so
+// there is nothing here that could name the giver.
+const toThread = (messages: Message[], asGiver: boolean): ThreadMessage[] =>
+  messages.map(({ id, body, createdAt, fromGiver }) => ({
+    id,
+    body,
+    createdAt,
+    fromMe: fromGiver === asGiver,
+  }));
+
+// A committed draw that hasn't been revealed can't be repaired: the live
+// assignments would stop matching the published commitment.
+const SEALED_MESSAGE = "Reveal the draw before changing it, or reset and reshuffle";
+
+const PASSWORD_RESET_TTL_MS = 1000 * 60 * 60 * 24; // one day
+
+// Gifts per person the live assignments were drawn with. The event setting
+// may have changed since, so repairs go by the draw.
+const drawnGifts = (draw: Draw | null) => draw?.inputs.gifts ?? 1;
+
+// Everything that blocks a shuffle; empty when the event is ready
+function readinessIssues(event: Event, participants: UserWithWishlist[]) {
+  const issues: string[] = [];
+  const gifts = event.giftsPerPerson;
+  const needed = Math.max(3, gifts + 1);
+  if (participants.length < needed)
+    issues.push(
+      gifts === 1
+        ? "Need at least 3 participants to shuffle"
+        : `Need at least ${needed} participants for ${gifts} gifts each`
+    );
+
+  const pending = participants.filter((p) => !p.wishlistCompleted).length;
+  if (pending)
+    issues.push(
+      `${pending} of ${participants.length} participants haven't completed their wishlist`
+    );
+
+  const ungrouped = participants.filter((p) => !p.group).length;
+  if (event.groupPolicy !== "any" && ungrouped)
+    issues.push(
+      `${ungrouped} of ${participants.length} participants have no group, which the group policy needs`
+    );
+  return issues;
+}
+
+async function collectDrawInputs(
+  event: Event,
+  participants: UserWithWishlist[]
+): Promise<DrawInputs> {
+  const rules = await storage.getExclusionsByEvent(event.id);
+  const history = event.avoidRepeatRounds
+    ? await storage.getRecentHistory(event.id, event.avoidRepeatRounds)
+    : [];
+
+  return {
+    participantIds: participants.map((p) => p.id),
+    exclusions: rules.map(({ giverId, receiverId, bidirectional }) => ({
+      giverId,
+      receiverId,
+      bidirectional,
+    })),
+    history: history.map(({ round, giverId, receiverId }) => ({
+      round,
+      giverId,
+      receiverId,
+    })),
+    gifts: event.giftsPerPerson,
+    groupPolicy: event.groupPolicy,
+    groups: Object.fromEntries(
+      participants.filter((p) => p.group).map((p) => [p.id, p.group!])
+    ),
+  };
+}
+
+// The event version a state-changing request was based on. Clients send the
+// version they last saw so a stale or repeated click is rejected; without
+// one, the version loaded for this request is used.
+function expectedVersion(req: Request): number | null {
+  const version = req.body?.version ?? req.event!.version;
+  return Number.isInteger(version) ? version : null;
+}
+
+// Session + login routes are registered by setupAuth() in index.ts
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
-  // Setup login + session
-  setupAuth(app);
-
-  // Simple auth check for participant routes
-  const requireAuth = (req: any, res: any, next: any) => {
-    if (!req.user) {
-      return res.status(401).json({ message: "Unauthorized" });
+  // Resolve :eventId once for every event-scoped route
+  app.param("eventId", async (req, res, next, value) => {
+    try {
+      const event = await storage.getEvent(Number(value));
+      if (!event) return res.status(404).json({ message: "Event not found" });
+      req.event = event;
+      next();
+    } catch (err) {
+      next(err);
     }
-    next();
-  };
+  });
 
   //
-  // PUBLIC READ ENDPOINTS
+  // EVENTS — ADMIN ONLY
   //
-  app.get("/api/app-state", async (_req, res) => {
+  app.get("/api/events", requireAdmin, async (_req, res) => {
     try {
-      res.json(await storage.getAppState());
+      res.json(await storage.getAllEvents());
     } catch {
-      res.status(500).json({ message: "Failed to get app state" });
+      res.status(500).json({ message: "Failed to get events" });
     }
   });
 
-  // Public participant list (admin dashboard)
-  app.get("/api/participants", async (_req, res) => {
+  app.post("/api/events", requireAdmin, async (req, res) => {
     try {
-      res.json(await storage.getAllParticipants());
+      const parsed = insertEventSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
+
+      res.status(201).json(await storage.createEvent(parsed.data));
+    } catch (err) {
+      console.error("Create event error:", err);
+      res.status(500).json({ message: "Failed to create event" });
+    }
+  });
+
+  app.get("/api/events/:eventId", requireAdmin, (req, res) => {
+    res.json(req.event);
+  });
+
+  app.patch("/api/events/:eventId", requireAdmin, async (req, res) => {
+    try {
+      const parsed = updateEventSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
+
+      const event = req.event!;
+      const min = parsed.data.wishlistMinItems ?? event.wishlistMinItems;
+      const max = parsed.data.wishlistMaxItems ?? event.wishlistMaxItems;
+      if (min > max)
+        return res
+          .status(400)
+          .json({ message: "The minimum wishlist size can't exceed the maximum" });
+
+      // Prices are stored in minor units of the event's currency, and there
+      // are no exchange rates to convert them with
+      if (parsed.data.currency && parsed.data.currency !== event.currency) {
+        if (event.budgetCents !== null && parsed.data.budgetCents === undefined)
+          return res.status(400).json({
+            message: `The budget is in ${event.currency}; set it again in ${parsed.data.currency} or clear it`,
+          });
+
+        const participants = await storage.getParticipantsByEvent(event.id);
+        if (participants.some((p) => p.wishlist.some((item) => item.priceCents !== null)))
+          return res.status(409).json({
+            message: `Wishlist prices are already in ${event.currency}; they must be cleared before the currency can change`,
+          });
+      }
+
+      const updated = await storage.updateEvent(event.id, parsed.data);
+
+      // A new minimum changes who counts as done, without anyone re-saving
+      if (min !== event.wishlistMinItems) {
+        for (const p of await storage.getParticipantsByEvent(event.id)) {
+          await storage.updateUserWishlistStatus(p.id, p.wishlist.length >= min);
+        }
+      }
+
+      res.json(updated);
+    } catch (err) {
+      console.error("Update event error:", err);
+      res.status(500).json({ message: "Failed to update event" });
+    }
+  });
+
+  app.delete("/api/events/:eventId", requireAdmin, async (req, res) => {
+    try {
+      await storage.deleteEvent(req.event!.id);
+      res.sendStatus(200);
     } catch {
-      res.status(500).json({ message: "Failed to get participants" });
+      res.status(500).json({ message: "Failed to delete event" });
     }
   });
 
   //
-  // PUBLIC WRITE ENDPOINTS (ADMIN WITHOUT SECURITY)
+  // PARTICIPANT MANAGEMENT — ADMIN ONLY
   //
-  app.post("/api/participants", async (req, res) => {
+  app.get("/api/events/:eventId/participants", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getParticipantsByEvent(req.event!.id));
+    } catch {
+      res.status(500).json({ message: "Failed to get participants" });
+    }
+  });
+
+  app.post("/api/events/:eventId/participants", requireAdmin, async (req, res) => {
     try {
       const { username, password } = req.body;
 
@@ -52,39 +276,445 @@ export async function registerRoutes(
       if (!password || password.length < 4)
         return res.status(400).json({ message: "Password too short" });
 
+      const group = participantGroupSchema.safeParse(req.body.group);
+      if (!group.success)
+        return res.status(400).json({ message: fromZodError(group.error).message });
+
       const existing = await storage.getUserByUsername(username);
       if (existing)
         return res.status(400).json({ message: "Username already exists" });
 
       const user = await storage.createUser({
         username,
-        password,
+        password: await hashPassword(password),
         role: "participant",
+        eventId: req.event!.id,
+        group: group.data,
       });
 
-      res.status(201).json(user);
+      res.status(201).json(toSafeUser(user));
     } catch (err) {
       console.error("Create participant error:", err);
       res.status(500).json({ message: "Failed to create participant" });
     }
   });
 
-  app.delete("/api/participants/:id", async (req, res) => {
+  // Only the group is editable; it applies from the next shuffle or repair
+  app.patch(
+    "/api/events/:eventId/participants/:id",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const user = await storage.getUser(Number(req.params.id));
+        if (!user || user.eventId !== req.event!.id)
+          return res.status(404).json({ message: "Participant not found" });
+
+        const group = participantGroupSchema.safeParse(req.body?.group);
+        if (!group.success)
+          return res.status(400).json({ message: fromZodError(group.error).message });
+
+        await storage.updateUserGroup(user.id, group.data);
+        res.json(toSafeUser({ ...user, group: group.data }));
+      } catch {
+        res.status(500).json({ message: "Failed to update participant" });
+      }
+    }
+  );
+
+  // Issues a one-time reset link for a participant who forgot their
+  // password. The token is returned this once; only its hash is stored, and
+  // issuing another replaces it. The password stays valid until it is used.
+  app.post(
+    "/api/events/:eventId/participants/:id/password-reset",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const user = await storage.getUser(Number(req.params.id));
+        if (!user || user.eventId !== req.event!.id)
+          return res.status(404).json({ message: "Participant not found" });
+
+        const token = generateToken();
+        const reset = await storage.createPasswordReset({
+          userId: user.id,
+          tokenHash: hashToken(token),
+          expiresAt: new Date(Date.now() + PASSWORD_RESET_TTL_MS),
+        });
+        res.status(201).json({ token, expiresAt: reset.expiresAt });
+      } catch (err) {
+        console.error("Password reset error:", err);
+        res.status(500).json({ message: "Failed to create reset link" });
+      }
+    }
+  );
+
+  app.delete(
+    "/api/events/:eventId/participants/:id",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const user = await storage.getUser(Number(req.params.id));
+        if (!user || user.eventId !== req.event!.id)
+          return res.status(404).json({ message: "Participant not found" });
+
+        // Deleting a matched participant would strand their giver
+        const assignments = await storage.getAssignmentsByEvent(req.event!.id);
+        if (assignments.some((a) => a.giverId === user.id))
+          return res.status(409).json({
+            message: "The event has been shuffled; withdraw the participant instead",
+          });
+
+        await storage.deleteUser(user.id);
+        res.sendStatus(200);
+      } catch {
+        res.status(500).json({ message: "Failed to delete participant" });
+      }
+    }
+  );
+
+  // Removes a participant after the shuffle and repairs the cycle locally:
+  // their giver inherits their recipient. The response names nobody, so
+  // the admin learns nothing about who was drawing whom.
+  app.post(
+    "/api/events/:eventId/participants/:id/withdraw",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const event = req.event!;
+        const version = expectedVersion(req);
+        if (version === null)
+          return res.status(400).json({ message: "Version must be an integer" });
+
+        const user = await storage.getUser(Number(req.params.id));
+        if (!user || user.eventId !== event.id)
+          return res.status(404).json({ message: "Participant not found" });
+        if (!event.shuffleCompleted)
+          return res.status(400).json({
+            message: "The event hasn't been shuffled; remove the participant instead",
+          });
+        const draw = await getCurrentDraw(event);
+        if (draw && !draw.revealedAt)
+          return res.status(409).json({ message: SEALED_MESSAGE });
+
+        const pairs = await storage.getAssignmentsByEvent(event.id);
+        if (!pairs.some((p) => p.giverId === user.id))
+          return res.status(409).json({ message: "Participant has no assignment to repair" });
+
+        const participants = await storage.getParticipantsByEvent(event.id);
+        const isAllowed = drawPredicate(await collectDrawInputs(event, participants));
+        const repairs = bypassPairs(pairs, user.id, isAllowed, seededRng(generateSeed()));
+        if (!repairs)
+          return res.status(409).json({
+            message:
+              "Their givers can't take over their recipients without drawing themselves, " +
+              "doubling up or breaking an exclusion or group rule; reset and reshuffle instead",
+          });
+
+        await storage.withdrawParticipant(event.id, version, user.id, repairs);
+        res.json({
+          message:
+            repairs.length === 1
+              ? "Participant withdrawn; one giver has a new recipient"
+              : `Participant withdrawn; ${repairs.length} givers have a new recipient`,
+        });
+      } catch (err) {
+        if (err instanceof ConflictError)
+          return res.status(409).json({ message: err.message });
+        console.error("Withdraw participant error:", err);
+        res.status(500).json({ message: "Failed to withdraw participant" });
+      }
+    }
+  );
+
+  // Participants of a shuffled event who aren't in the draw yet. Only ids
+  // go out; who gives to whom stays secret.
+  app.get(
+    "/api/events/:eventId/participants/unmatched",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const event = req.event!;
+        if (!event.shuffleCompleted) return res.json([]);
+
+        const matched = new Set(
+          (await storage.getAssignmentsByEvent(event.id)).map((a) => a.giverId)
+        );
+        const participants = await storage.getParticipantsByEvent(event.id);
+        res.json(participants.filter((p) => !matched.has(p.id)).map((p) => p.id));
+      } catch {
+        res.status(500).json({ message: "Failed to get unmatched participants" });
+      }
+    }
+  );
+
+  // Splices a late joiner into the existing draw: for each gift a random
+  // A → B becomes A → new → B. Only those A's assignments change.
+  app.post(
+    "/api/events/:eventId/participants/:id/join-draw",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const event = req.event!;
+        const version = expectedVersion(req);
+        if (version === null)
+          return res.status(400).json({ message: "Version must be an integer" });
+
+        const user = await storage.getUser(Number(req.params.id));
+        if (!user || user.eventId !== event.id)
+          return res.status(404).json({ message: "Participant not found" });
+        if (!event.shuffleCompleted)
+          return res.status(400).json({
+            message: "The event hasn't been shuffled; they'll be included in the shuffle",
+          });
+        if (!user.wishlistCompleted)
+          return res
+            .status(400)
+            .json({ message: "The participant must complete their wishlist first" });
+        const draw = await getCurrentDraw(event);
+        if (draw && !draw.revealedAt)
+          return res.status(409).json({ message: SEALED_MESSAGE });
+
+        const pairs = await storage.getAssignmentsByEvent(event.id);
+        if (pairs.some((p) => p.giverId === user.id))
+          return res.status(409).json({ message: "Participant is already in the draw" });
+
+        const participants = await storage.getParticipantsByEvent(event.id);
+        const isAllowed = drawPredicate(await collectDrawInputs(event, participants));
+        const gifts = drawnGifts(draw);
+        const splits = splicePairs(pairs, user.id, gifts, isAllowed, seededRng(generateSeed()));
+        if (!splits)
+          return res.status(409).json({
+            message: "No pairing can take them without breaking an exclusion or group rule; reset and reshuffle instead",
+          });
+
+        await storage.spliceParticipant(event.id, version, user.id, splits);
+        res.json({
+          message:
+            gifts === 1
+              ? "Participant joined the draw; one giver has a new recipient"
+              : `Participant joined the draw; ${gifts} givers have a new recipient`,
+        });
+      } catch (err) {
+        if (err instanceof ConflictError)
+          return res.status(409).json({ message: err.message });
+        console.error("Join draw error:", err);
+        res.status(500).json({ message: "Failed to add participant to the draw" });
+      }
+    }
+  );
+
+  //
+  // INVITES — CREATED BY THE ADMIN, REDEEMED BY ANYONE WITH THE LINK
+  //
+  app.get("/api/events/:eventId/invites", requireAdmin, async (req, res) => {
+    try {
+      const invites = await storage.getInvitesByEvent(req.event!.id);
+      res.json(invites.map(toInviteSummary));
+    } catch {
+      res.status(500).json({ message: "Failed to get invites" });
+    }
+  });
+
+  // The token is returned this once; only its hash is stored
+  app.post("/api/events/:eventId/invites", requireAdmin, async (req, res) => {
+    try {
+      const parsed = createInviteSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
+
+      const { label, group, expiresInDays } = parsed.data;
+      const token = generateToken();
+      const invite = await storage.createInvite({
+        eventId: req.event!.id,
+        tokenHash: hashToken(token),
+        label,
+        group,
+        expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+      });
+
+      res.status(201).json({ invite: toInviteSummary(invite), token });
+    } catch {
+      res.status(500).json({ message: "Failed to create invite" });
+    }
+  });
+
+  app.post(
+    "/api/events/:eventId/invites/:inviteId/revoke",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const invites = await storage.getInvitesByEvent(req.event!.id);
+        const invite = invites.find((i) => i.id === Number(req.params.inviteId));
+        if (!invite) return res.status(404).json({ message: "Invite not found" });
+
+        const revoked = await storage.revokeInvite(invite.id);
+        if (!revoked)
+          return res
+            .status(409)
+            .json({ message: `Invite is already ${inviteStatus(invite)}` });
+
+        res.json(toInviteSummary(revoked));
+      } catch {
+        res.status(500).json({ message: "Failed to revoke invite" });
+      }
+    }
+  );
+
+  // Public: what the join page shows before anyone signs up
+  app.get("/api/invites/:token", throttleIp, async (req, res) => {
+    try {
+      const invite = await storage.getInviteByTokenHash(hashToken(req.params.token));
+      const event = invite ? await storage.getEvent(invite.eventId) : null;
+      if (!invite || !event) return res.status(404).json({ message: "Invite not found" });
+
+      const preview: InvitePreview = {
+        eventName: event.name,
+        label: invite.label,
+        status: inviteStatus(invite),
+      };
+      res.json(preview);
+    } catch {
+      res.status(500).json({ message: "Failed to get invite" });
+    }
+  });
+
+  // Public: creates the participant with their own credentials and logs
+  // them straight in
+  app.post("/api/invites/:token/redeem", throttleIp, async (req, res) => {
+    try {
+      const parsed = redeemInviteSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
+
+      const invite = await storage.getInviteByTokenHash(hashToken(req.params.token));
+      if (!invite) return res.status(404).json({ message: "Invite not found" });
+
+      const status = inviteStatus(invite);
+      if (status !== "pending")
+        return res.status(410).json({ message: `This invite is ${status}` });
+
+      const { username, password } = parsed.data;
+      if (await storage.getUserByUsername(username))
+        return res.status(400).json({ message: "That name is already taken" });
+
+      const user = await storage.redeemInvite(invite.id, {
+        username,
+        password: await hashPassword(password),
+        role: "participant",
+        eventId: invite.eventId,
+        group: invite.group,
+      });
+
+      await startSession(req, user);
+      res.status(201).json(toSafeUser(user));
+    } catch (err) {
+      if (err instanceof ConflictError)
+        return res.status(410).json({ message: "This invite is no longer valid" });
+      console.error("Redeem invite error:", err);
+      res.status(500).json({ message: "Failed to join" });
+    }
+  });
+
+  //
+  // LOCKOUTS — ADMIN ONLY
+  //
+  app.get("/api/lockouts", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await loginLimiter.lockouts());
+    } catch {
+      res.status(500).json({ message: "Failed to get lockouts" });
+    }
+  });
+
+  // Clears the record entirely: an account gets its free tries back
+  app.delete("/api/lockouts/:kind/:key", requireAdmin, async (req, res) => {
     try {
-      const id = Number(req.params.id);
-      await storage.deleteUser(id);
+      const { kind, key } = req.params;
+      if (kind !== "account" && kind !== "ip")
+        return res.status(400).json({ message: "Unknown lockout kind" });
+
+      await loginLimiter.clear(kind, key);
       res.sendStatus(200);
     } catch {
-      res.status(500).json({ message: "Failed to delete participant" });
+      res.status(500).json({ message: "Failed to clear lockout" });
     }
   });
 
+  //
+  // EXCLUSIONS — ADMIN ONLY
+  //
+  app.get("/api/events/:eventId/exclusions", requireAdmin, async (req, res) => {
+    try {
+      res.json(await storage.getExclusionsByEvent(req.event!.id));
+    } catch {
+      res.status(500).json({ message: "Failed to get exclusions" });
+    }
+  });
+
+  app.post("/api/events/:eventId/exclusions", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertExclusionSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
+
+      const { giverId, receiverId } = parsed.data;
+      const memberIds = (await storage.getParticipantsByEvent(req.event!.id)).map(
+        (p) => p.id
+      );
+      if (!memberIds.includes(giverId) || !memberIds.includes(receiverId))
+        return res
+          .status(400)
+          .json({ message: "Both participants must belong to this event" });
+
+      const existing = await storage.getExclusionsByEvent(req.event!.id);
+      const duplicate = existing.some(
+        (e) =>
+          (e.giverId === giverId && e.receiverId === receiverId) ||
+          (e.bidirectional && e.giverId === receiverId && e.receiverId === giverId)
+      );
+      if (duplicate)
+        return res.status(400).json({ message: "Exclusion already exists" });
+
+      const exclusion = await storage.createExclusion({
+        ...parsed.data,
+        eventId: req.event!.id,
+      });
+      res.status(201).json(exclusion);
+    } catch (err) {
+      console.error("Create exclusion error:", err);
+      res.status(500).json({ message: "Failed to create exclusion" });
+    }
+  });
+
+  app.delete(
+    "/api/events/:eventId/exclusions/:id",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const id = Number(req.params.id);
+        const existing = await storage.getExclusionsByEvent(req.event!.id);
+        if (!existing.some((e) => e.id === id))
+          return res.status(404).json({ message: "Exclusion not found" });
+
+        await storage.deleteExclusion(id);
+        res.sendStatus(200);
+      } catch {
+        res.status(500).json({ message: "Failed to delete exclusion" });
+      }
+    }
+  );
+
   //
   // PARTICIPANT WISHLIST — REQUIRES LOGIN
   //
   app.get("/api/my-wishlist", requireAuth, async (req, res) => {
     try {
-      res.json(await storage.getWishlistByUserId(req.user.id));
+      res.json(await storage.getWishlistByUserId(req.user!.id));
     } catch {
       res.status(500).json({ message: "Failed to get wishlist" });
     }
@@ -92,16 +722,27 @@ export async function registerRoutes(
 
   app.post("/api/my-wishlist", requireAuth, async (req, res) => {
     try {
-      const { item1, item2, item3 } = req.body;
+      const parsed = updateWishlistSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
 
-      const wishlist = await storage.createOrUpdateWishlist(
-        req.user.id,
-        item1?.trim() || undefined,
-        item2?.trim() || undefined,
-        item3?.trim() || undefined
-      );
+      const { items } = parsed.data;
+      const user = await storage.getUser(req.user!.id);
+      const event = user?.eventId ? await storage.getEvent(user.eventId) : null;
+      if (!event) return res.status(400).json({ message: "You are not in an event" });
+
+      if (items.length > event.wishlistMaxItems)
+        return res.status(400).json({
+          message: `${event.name} allows at most ${event.wishlistMaxItems} wishlist items`,
+        });
 
-      await storage.updateUserWishlistStatus(req.user.id, true);
+      const wishlist = await storage.replaceWishlist(req.user!.id, items);
+      await storage.updateUserWishlistStatus(
+        req.user!.id,
+        items.length >= event.wishlistMinItems
+      );
 
       res.json({ wishlist });
     } catch {
@@ -109,67 +750,376 @@ export async function registerRoutes(
     }
   });
 
+  // Notes for the participant's Santa, shown with their wishlist
+  app.get("/api/my-profile", requireAuth, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) return res.status(404).json({ message: "User not found" });
+
+      const profile: Profile = { giftNotes: user.giftNotes, giftAvoid: user.giftAvoid };
+      res.json(profile);
+    } catch {
+      res.status(500).json({ message: "Failed to get profile" });
+    }
+  });
+
+  app.post("/api/my-profile", requireAuth, async (req, res) => {
+    try {
+      const parsed = updateProfileSchema.safeParse(req.body);
+      if (!parsed.success)
+        return res
+          .status(400)
+          .json({ message: fromZodError(parsed.error).message });
+
+      await storage.updateUserProfile(req.user!.id, parsed.data);
+      res.json(parsed.data);
+    } catch {
+      res.status(500).json({ message: "Failed to save profile" });
+    }
+  });
+
   //
-  // USER ASSIGNMENT
+  // PARTICIPANT EVENT + ASSIGNMENT
   //
-  app.get("/api/my-assignment", requireAuth, async (req, res) => {
+  app.get("/api/my-event", requireAuth, async (req, res) => {
     try {
-      res.json(await storage.getAssignmentByGiverId(req.user.id));
+      const user = await storage.getUser(req.user!.id);
+      const event = user?.eventId ? await storage.getEvent(user.eventId) : null;
+      if (!event) return res.json(null);
+
+      // Every commitment stays listed, so a quiet re-roll is visible
+      const draws: DrawSummary[] = (await storage.getDrawsByEvent(event.id)).map(
+        ({ round, commitment, revealedAt, discardedAt, createdAt }) => ({
+          round,
+          commitment,
+          revealedAt,
+          discardedAt,
+          createdAt,
+        })
+      );
+      res.json({ ...event, draws });
+    } catch {
+      res.status(500).json({ message: "Failed to get event" });
+    }
+  });
+
+  // Every recipient the user gives to; empty while the draw is sealed
+  app.get("/api/my-assignments", requireAuth, async (req, res) => {
+    try {
+      if (await drawSealedFor(req.user!.id)) return res.json([]);
+
+      const assignments = await storage.getAssignmentsByGiverId(req.user!.id);
+      const views: AssignmentView[] = await Promise.all(
+        assignments.map(async (assignment) => ({
+          ...assignment,
+          wishlistChanges: changesSince(
+            await storage.getWishlistRevisions(assignment.receiverId),
+            assignment.wishlistSeenAt
+          ),
+        }))
+      );
+      res.json(views);
+    } catch {
+      res.status(500).json({ message: "Failed to get assignments" });
+    }
+  });
+
+  // The giver has looked at the recipient's wishlist as it is now
+  app.post("/api/my-assignments/:assignmentId/seen", requireAuth, async (req, res) => {
+    try {
+      if (await drawSealedFor(req.user!.id))
+        return res.status(404).json({ message: "Assignment not found" });
+
+      const mine = await storage.getAssignmentsByGiverId(req.user!.id);
+      const assignment = mine.find((a) => a.id === Number(req.params.assignmentId));
+      if (!assignment) return res.status(404).json({ message: "Assignment not found" });
+
+      await storage.markWishlistSeen(assignment.id, new Date());
+      res.sendStatus(200);
     } catch {
-      res.status(500).json({ message: "Failed to get assignment" });
+      res.status(500).json({ message: "Failed to update assignment" });
     }
   });
 
   //
-  // SHUFFLE — NO ADMIN SECURITY
+  // ANONYMOUS MESSAGES — REQUIRES LOGIN
   //
-  app.post("/api/shuffle", async (req, res) => {
+  // Givers address a thread by their assignment. Recipients address it by
+  // which of their Santas it is (1-based), so an assignment id, and with it
+  // any hint of the giver, never reaches them. Nothing here is open to the
+  // admin: only the two people in a pairing can read its thread.
+  app.get("/api/my-assignments/:assignmentId/messages", requireAuth, async (req, res) => {
     try {
-      const participants = await storage.getAllParticipants();
+      if (await drawSealedFor(req.user!.id))
+        return res.status(404).json({ message: "Assignment not found" });
 
-      if (participants.length < 3)
+      const mine = await storage.getAssignmentsByGiverId(req.user!.id);
+      const assignment = mine.find((a) => a.id === Number(req.params.assignmentId));
+      if (!assignment) return res.status(404).json({ message: "Assignment not found" });
+
+      res.json(toThread(await storage.getMessagesByAssignment(assignment.id), true));
+    } catch {
+      res.status(500).json({ message: "Failed to get messages" });
+    }
+  });
+
+  app.post("/api/my-assignments/:assignmentId/messages", requireAuth, async (req, res) => {
+    try {
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success)
         return res
           .status(400)
-          .json({ message: "Need at least 3 participants to shuffle" });
+          .json({ message: fromZodError(parsed.error).message });
+
+      if (await drawSealedFor(req.user!.id))
+        return res.status(404).json({ message: "Assignment not found" });
+
+      const mine = await storage.getAssignmentsByGiverId(req.user!.id);
+      const assignment = mine.find((a) => a.id === Number(req.params.assignmentId));
+      if (!assignment) return res.status(404).json({ message: "Assignment not found" });
+
+      const message = await storage.createMessage({
+        assignmentId: assignment.id,
+        fromGiver: true,
+        body: parsed.data.body,
+      });
+      res.status(201).json(toThread([message], true)[0]);
+    } catch {
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
 
-      const allCompleted = participants.every((p) => p.wishlistCompleted);
-      if (!allCompleted)
+  app.get("/api/my-santas", requireAuth, async (req, res) => {
+    try {
+      if (await drawSealedFor(req.user!.id)) return res.json([]);
+
+      const santas = await storage.getAssignmentsByReceiverId(req.user!.id);
+      const threads: SantaThread[] = await Promise.all(
+        santas.map(async (assignment, index) => ({
+          santa: index + 1,
+          messages: toThread(await storage.getMessagesByAssignment(assignment.id), false),
+        }))
+      );
+      res.json(threads);
+    } catch {
+      res.status(500).json({ message: "Failed to get messages" });
+    }
+  });
+
+  app.post("/api/my-santas/:santa/messages", requireAuth, async (req, res) => {
+    try {
+      const parsed = sendMessageSchema.safeParse(req.body);
+      if (!parsed.success)
         return res
           .status(400)
-          .json({ message: "Some participants haven't completed wishlist" });
+          .json({ message: fromZodError(parsed.error).message });
 
-      await storage.deleteAllAssignments();
+      if (await drawSealedFor(req.user!.id))
+        return res.status(404).json({ message: "Secret Santa not found" });
 
-      // Sattolo's derangement algorithm
-      const ids = participants.map((p) => p.id);
-      const receivers = [...ids];
-      for (let i = receivers.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * i);
-        [receivers[i], receivers[j]] = [receivers[j], receivers[i]];
-      }
+      const santas = await storage.getAssignmentsByReceiverId(req.user!.id);
+      const assignment = santas[Number(req.params.santa) - 1];
+      if (!assignment) return res.status(404).json({ message: "Secret Santa not found" });
 
-      for (let i = 0; i < ids.length; i++) {
-        await storage.createAssignment(ids[i], receivers[i]);
-      }
+      const message = await storage.createMessage({
+        assignmentId: assignment.id,
+        fromGiver: false,
+        body: parsed.data.body,
+      });
+      res.status(201).json(toThread([message], false)[0]);
+    } catch {
+      res.status(500).json({ message: "Failed to send message" });
+    }
+  });
+
+  //
+  // SHUFFLE — ADMIN ONLY
+  //
+  app.post("/api/events/:eventId/shuffle", requireAdmin, async (req, res) => {
+    try {
+      const event = req.event!;
+      const version = expectedVersion(req);
+      if (version === null)
+        return res.status(400).json({ message: "Version must be an integer" });
+      if (event.shuffleCompleted)
+        return res
+          .status(409)
+          .json({ message: "Shuffle already completed; reset it first" });
+
+      const participants = await storage.getParticipantsByEvent(event.id);
+
+      const issues = readinessIssues(event, participants);
+      if (issues.length) return res.status(400).json({ message: issues[0] });
+
+      const inputs = await collectDrawInputs(event, participants);
 
-      await storage.setShuffleCompleted(true);
+      const seed = generateSeed();
+      const result = runDraw(inputs, seed, participants);
+      if (!result.ok) return res.status(400).json({ message: result.reason });
 
-      res.json({ message: "Shuffle completed" });
+      // In commit-reveal mode only the commitment is visible until the
+      // admin reveals; otherwise the draw is revealed straight away.
+      const draw = await storage.commitShuffle(
+        event.id,
+        version,
+        {
+          eventId: event.id,
+          seed,
+          commitment: commitPairs(seed, result.pairs),
+          inputs,
+          revealedAt: event.commitReveal ? null : new Date(),
+        },
+        result.pairs
+      );
+
+      res.json({
+        message: "Shuffle completed",
+        round: draw.round,
+        commitment: draw.commitment,
+        relaxed: result.relaxed,
+      });
     } catch (err) {
+      if (err instanceof ConflictError)
+        return res.status(409).json({ message: err.message });
       console.error("Shuffle error:", err);
       res.status(500).json({ message: "Failed to shuffle" });
     }
   });
 
+  // Dry run: same readiness checks and matcher as the real shuffle, but
+  // nothing is written and only the shape of the draw is reported.
+  app.post(
+    "/api/events/:eventId/shuffle/preview",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const event = req.event!;
+        const participants = await storage.getParticipantsByEvent(event.id);
+        const issues = readinessIssues(event, participants);
+        const inputs = await collectDrawInputs(event, participants);
+
+        const preview: ShufflePreview = {
+          ready: issues.length === 0,
+          issues,
+          feasible: false,
+          gifts: event.giftsPerPerson,
+          cycles: [],
+          constraints: {
+            exclusions: inputs.exclusions.length,
+            groupPolicy: event.groupPolicy,
+            historyRounds: new Set(inputs.history.map((h) => h.round)).size,
+            relaxed: [],
+          },
+        };
+
+        if (participants.length >= 2) {
+          const result = runDraw(inputs, generateSeed(), participants);
+          if (result.ok) {
+            preview.feasible = true;
+            if (preview.gifts === 1) preview.cycles = cycleLengths(result.pairs);
+            preview.constraints.relaxed = result.relaxed;
+          } else {
+            preview.reason = result.reason;
+          }
+        }
+
+        res.json(preview);
+      } catch (err) {
+        console.error("Shuffle preview error:", err);
+        res.status(500).json({ message: "Failed to preview shuffle" });
+      }
+    }
+  );
+
   //
-  // RESET — NO ADMIN SECURITY
+  // DRAW AUDIT — ADMIN ONLY
   //
-  app.post("/api/reset", async (_req, res) => {
+  app.get("/api/events/:eventId/draws", requireAdmin, async (req, res) => {
     try {
-      await storage.deleteAllAssignments();
-      await storage.setShuffleCompleted(false);
-      res.json({ message: "Reset successful" });
+      const draws = await storage.getDrawsByEvent(req.event!.id);
+      const audit: DrawAudit[] = draws.map((d) =>
+        d.revealedAt ? d : { ...d, seed: null, inputs: null }
+      );
+      res.json(audit);
     } catch {
+      res.status(500).json({ message: "Failed to get draws" });
+    }
+  });
+
+  // Checks the live assignments against the published commitment before
+  // letting participants see them.
+  app.post("/api/events/:eventId/reveal", requireAdmin, async (req, res) => {
+    try {
+      const event = req.event!;
+      const draw = await getCurrentDraw(event);
+      if (!draw) return res.status(400).json({ message: "Nothing to reveal" });
+      if (draw.revealedAt)
+        return res.status(400).json({ message: "Draw already revealed" });
+
+      const live = await storage.getAssignmentsByEvent(event.id);
+      if (commitPairs(draw.seed, live) !== draw.commitment)
+        return res.status(409).json({
+          message: "Assignments no longer match the published commitment",
+        });
+
+      const revealed = await storage.markDrawRevealed(draw.id);
+      res.json({ message: "Draw revealed", round: revealed.round });
+    } catch (err) {
+      console.error("Reveal error:", err);
+      res.status(500).json({ message: "Failed to reveal draw" });
+    }
+  });
+
+  // Re-runs a past draw from its seed (or one supplied by the caller) and
+  // reports whether it reproduces the archived pairs. Never returns names.
+  app.post(
+    "/api/events/:eventId/draws/:round/verify",
+    requireAdmin,
+    async (req, res) => {
+      try {
+        const draw = await storage.getDraw(req.event!.id, Number(req.params.round));
+        if (!draw) return res.status(404).json({ message: "Draw not found" });
+
+        const seed = req.body?.seed ?? draw.seed;
+        if (!isValidSeed(seed))
+          return res
+            .status(400)
+            .json({ message: "Seed must be 64 hexadecimal characters" });
+
+        const archived = await storage.getRoundPairs(draw.eventId, draw.round);
+        const rerun = runDraw(draw.inputs, seed);
+
+        res.json({
+          round: draw.round,
+          reproduced: rerun.ok && samePairs(rerun.pairs, archived),
+          commitmentValid: commitPairs(seed, archived) === draw.commitment,
+        });
+      } catch (err) {
+        console.error("Verify draw error:", err);
+        res.status(500).json({ message: "Failed to verify draw" });
+      }
+    }
+  );
+
+  //
+  // RESET — ADMIN ONLY
+  //
+  app.post("/api/events/:eventId/reset", requireAdmin, async (req, res) => {
+    try {
+      const version = expectedVersion(req);
+      if (version === null)
+        return res.status(400).json({ message: "Version must be an integer" });
+
+      // A draw can be kept as a past round, so the next shuffle avoids its
+      // pairs. One that was never revealed is always discarded.
+      const draw = await getCurrentDraw(req.event!);
+      const keepDraw = req.body?.keepDraw === true && !!draw?.revealedAt;
+
+      await storage.resetShuffle(req.event!.id, version, keepDraw);
+      res.json({ message: "Reset successful" });
+    } catch (err) {
+      if (err instanceof ConflictError)
+        return res.status(409).json({ message: err.message });
       res.status(500).json({ message: "Failed to reset" });
     }
   });
@@ -0,0 +1,384 @@
+// The IStorage contract, run against both backends. DatabaseStorage gets an
+// in-process Postgres (PGlite) with the schema pushed the way db:push does.
+import { createRequire } from "node:module";
+import { beforeEach, describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import type { WishlistItemInput } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { DatabaseStorage } from "./db-storage";
+import { ConflictError } from "./errors";
+import type { Db } from "./pg";
+
+// The schema is pushed once; every test starts from a copy of that database
+let snapshot: Promise<File | Blob> | undefined;
+
+async function pushedSchema() {
+  const pglite = new PGlite();
+  // drizzle-kit only ships its API as CommonJS
+  const { pushSchema } = createRequire(import.meta.url)("drizzle-kit/api");
+  const { apply } = await pushSchema(schema, drizzle(pglite, { schema }));
+  await apply();
+  return pglite.dumpDataDir();
+}
+
+async function databaseStorage(): Promise<IStorage> {
+  snapshot ??= pushedSchema();
+  const db = drizzle(new PGlite({ loadDataDir: await snapshot }), { schema });
+  return new DatabaseStorage(db as unknown as Db);
+}
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", databaseStorage],
+];
+
+const item = (title: string, priceCents: number | null = null): WishlistItemInput => ({
+  title,
+  url: null,
+  priceCents,
+  priority: 3,
+  notes: null,
+});
+
+const draw = {
+  seed: "00".repeat(32),
+  commitment: "ab".repeat(32),
+  inputs: { participantIds: [], exclusions: [], history: [] },
+};
+
+describe.each(backends)("%s", (_name, create) => {
+  let storage: IStorage;
+  let eventId: number;
+  let ids: number[];
+
+  // An event with four participants: a, b, c and d
+  beforeEach(async () => {
+    storage = await create();
+    eventId = (await storage.createEvent({ name: "Office" })).id;
+    ids = [];
+    for (const username of ["a", "b", "c", "d"]) {
+      ids.push((await storage.createUser({ username, password: "hash", eventId })).id);
+    }
+  }, 30_000);
+
+  const shuffle = async (pairs: [number, number][]) => {
+    const event = (await storage.getEvent(eventId))!;
+    return storage.commitShuffle(
+      eventId,
+      event.version,
+      { ...draw, revealedAt: new Date() },
+      pairs.map(([giverId, receiverId]) => ({ giverId, receiverId }))
+    );
+  };
+
+  const version = async () => (await storage.getEvent(eventId))!.version;
+
+  describe("users", () => {
+    it("creates users with defaults and finds them by id and name", async () => {
+      const user = await storage.getUserByUsername("a");
+      expect(user).toMatchObject({
+        id: ids[0],
+        role: "participant",
+        eventId,
+        wishlistCompleted: false,
+        sessionVersion: 0,
+        totpSecret: null,
+      });
+      expect(await storage.getUser(ids[0])).toEqual(user);
+      expect(await storage.getUserByUsername("nobody")).toBeNull();
+    });
+
+    it("lists an event's participants without their secrets", async () => {
+      await storage.createUser({ username: "admin", password: "hash", role: "admin" });
+      const participants = await storage.getParticipantsByEvent(eventId);
+      expect(participants.map((p) => p.username).sort()).toEqual(["a", "b", "c", "d"]);
+      expect(participants[0]).not.toHaveProperty("password");
+      expect(participants[0]).not.toHaveProperty("totpSecret");
+      expect(participants[0].wishlist).toEqual([]);
+    });
+
+    it("bumps the session version when the password changes", async () => {
+      await storage.createPasswordReset({
+        userId: ids[0],
+        tokenHash: "reset",
+        expiresAt: new Date(Date.now() + 60_000),
+      });
+      expect(await storage.changeUserPassword(ids[0], "new")).toBe(1);
+      expect((await storage.getUser(ids[0]))!.password).toBe("new");
+      expect(await storage.consumePasswordReset("reset")).toBeNull();
+    });
+
+    it("deletes a user along with their wishlist and assignments", async () => {
+      await storage.replaceWishlist(ids[0], [item("Socks")]);
+      await shuffle([[ids[0], ids[1]], [ids[1], ids[0]]]);
+      await storage.deleteUser(ids[0]);
+      expect(await storage.getUser(ids[0])).toBeNull();
+      expect(await storage.getWishlistByUserId(ids[0])).toEqual([]);
+      expect(await storage.getAssignmentsByEvent(eventId)).toEqual([]);
+    });
+  });
+
+  describe("two-factor", () => {
+    it("accepts each time step once", async () => {
+      await storage.setTotpSecret(ids[0], "SECRET");
+      await storage.enableTotp(ids[0], 100, ["h1", "h2"]);
+      expect(await storage.useTotpStep(ids[0], 100)).toBe(false);
+      expect(await storage.useTotpStep(ids[0], 101)).toBe(true);
+      expect(await storage.useTotpStep(ids[0], 101)).toBe(false);
+    });
+
+    it("spends recovery codes once and forgets them when disabled", async () => {
+      await storage.setTotpSecret(ids[0], "SECRET");
+      await storage.enableTotp(ids[0], 100, ["h1", "h2"]);
+      expect(await storage.useRecoveryCode(ids[0], "h1")).toBe(true);
+      expect(await storage.useRecoveryCode(ids[0], "h1")).toBe(false);
+      expect(await storage.useRecoveryCode(ids[1], "h2")).toBe(false);
+      expect(await storage.countRecoveryCodes(ids[0])).toBe(1);
+
+      await storage.disableTotp(ids[0]);
+      expect(await storage.getUser(ids[0])).toMatchObject({ totpSecret: null, totpEnabledAt: null });
+      expect(await storage.countRecoveryCodes(ids[0])).toBe(0);
+    });
+  });
+
+  describe("wishlists", () => {
+    it("replaces items in order and keeps every revision", async () => {
+      await storage.replaceWishlist(ids[0], [item("Socks"), item("Book", 1500)]);
+      await storage.replaceWishlist(ids[0], [item("Book", 1500)]);
+
+      const items = await storage.getWishlistByUserId(ids[0]);
+      expect(items.map((i) => [i.title, i.position, i.priceCents])).toEqual([["Book", 0, 1500]]);
+
+      const revisions = await storage.getWishlistRevisions(ids[0]);
+      expect(revisions.map((r) => r.items.map((i) => i.title))).toEqual([["Socks", "Book"], ["Book"]]);
+    });
+
+    it("doesn't record a revision for an unchanged re-save", async () => {
+      await storage.replaceWishlist(ids[0], [item("Socks"), item("Book", 1500)]);
+      await storage.replaceWishlist(ids[0], [item("Socks"), item("Book", 1500)]);
+      await storage.replaceWishlist(ids[0], [item("Book", 1500), item("Socks")]);
+      await storage.replaceWishlist(ids[0], [item("Book", 1500), item("Socks")]);
+
+      const revisions = await storage.getWishlistRevisions(ids[0]);
+      expect(revisions.map((r) => r.items.map((i) => i.title))).toEqual([
+        ["Socks", "Book"],
+        ["Book", "Socks"],
+      ]);
+    });
+  });
+
+  describe("events", () => {
+    it("updates settings", async () => {
+      const event = await storage.updateEvent(eventId, { currency: "EUR", budgetCents: 2000 });
+      expect(event).toMatchObject({ currency: "EUR", budgetCents: 2000, version: 0 });
+    });
+
+    it("returns the event unchanged when there is nothing to update", async () => {
+      const before = await storage.getEvent(eventId);
+      expect(await storage.updateEvent(eventId, {})).toEqual(before);
+    });
+
+    it("deletes an event with its participants and draws", async () => {
+      await shuffle([[ids[0], ids[1]], [ids[1], ids[0]]]);
+      await storage.deleteEvent(eventId);
+      expect(await storage.getEvent(eventId)).toBeNull();
+      expect(await storage.getUser(ids[0])).toBeNull();
+      expect(await storage.getDrawsByEvent(eventId)).toEqual([]);
+      expect(await storage.getRoundPairs(eventId, 1)).toEqual([]);
+    });
+  });
+
+  describe("invites", () => {
+    const expiresAt = () => new Date(Date.now() + 60_000);
+
+    it("redeems a pending invite once", async () => {
+      const invite = await storage.createInvite({ eventId, tokenHash: "t1", label: "Eve", expiresAt: expiresAt() });
+      const user = await storage.redeemInvite(invite.id, { username: "eve", password: "hash", eventId });
+
+      expect(await storage.getInviteByTokenHash("t1")).toMatchObject({ usedByUserId: user.id });
+      await expect(
+        storage.redeemInvite(invite.id, { username: "eve2", password: "hash", eventId })
+      ).rejects.toBeInstanceOf(ConflictError);
+      expect(await storage.getUserByUsername("eve2")).toBeNull();
+    });
+
+    it("only revokes pending invites", async () => {
+      const invite = await storage.createInvite({ eventId, tokenHash: "t1", expiresAt: expiresAt() });
+      expect(await storage.revokeInvite(invite.id)).toMatchObject({ id: invite.id });
+      expect(await storage.revokeInvite(invite.id)).toBeNull();
+      await expect(
+        storage.redeemInvite(invite.id, { username: "eve", password: "hash", eventId })
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it("won't redeem an expired invite", async () => {
+      const invite = await storage.createInvite({ eventId, tokenHash: "t1", expiresAt: new Date(Date.now() - 1) });
+      await expect(
+        storage.redeemInvite(invite.id, { username: "eve", password: "hash", eventId })
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+  });
+
+  describe("password resets", () => {
+    it("keeps one token per user and consumes it once", async () => {
+      const expiresAt = new Date(Date.now() + 60_000);
+      await storage.createPasswordReset({ userId: ids[0], tokenHash: "old", expiresAt });
+      await storage.createPasswordReset({ userId: ids[0], tokenHash: "new", expiresAt });
+
+      expect(await storage.consumePasswordReset("old")).toBeNull();
+      expect(await storage.consumePasswordReset("new")).toMatchObject({ userId: ids[0] });
+      expect(await storage.consumePasswordReset("new")).toBeNull();
+    });
+
+    it("consumes but rejects an expired token", async () => {
+      await storage.createPasswordReset({ userId: ids[0], tokenHash: "t", expiresAt: new Date(Date.now() - 1) });
+      expect(await storage.consumePasswordReset("t")).toBeNull();
+    });
+  });
+
+  describe("exclusions", () => {
+    it("creates and deletes exclusions", async () => {
+      const exclusion = await storage.createExclusion({ eventId, giverId: ids[0], receiverId: ids[1] });
+      expect(exclusion.bidirectional).toBe(false);
+      expect(await storage.getExclusionsByEvent(eventId)).toHaveLength(1);
+      await storage.deleteExclusion(exclusion.id);
+      expect(await storage.getExclusionsByEvent(eventId)).toEqual([]);
+    });
+  });
+
+  describe("shuffle", () => {
+    const ring = () => ids.map((id, i): [number, number] => [id, ids[(i + 1) % ids.length]]);
+
+    it("commits a draw, its assignments and its history", async () => {
+      const committed = await shuffle(ring());
+      expect(committed.round).toBe(1);
+      expect(await storage.getEvent(eventId)).toMatchObject({ shuffleCompleted: true, version: 1 });
+      expect(await storage.getAssignmentsByEvent(eventId)).toHaveLength(4);
+      expect(await storage.getRoundPairs(eventId, 1)).toHaveLength(4);
+
+      const [mine] = await storage.getAssignmentsByGiverId(ids[0]);
+      expect(mine.receiver).toMatchObject({ id: ids[1], wishlist: [] });
+      expect(await storage.getAssignmentsByReceiverId(ids[1])).toHaveLength(1);
+    });
+
+    it("rejects a stale version or a second shuffle", async () => {
+      await expect(storage.commitShuffle(eventId, 5, draw, [])).rejects.toBeInstanceOf(ConflictError);
+      await shuffle(ring());
+      await expect(shuffle(ring())).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it("numbers rounds per event across resets", async () => {
+      await shuffle(ring());
+      await storage.resetShuffle(eventId, await version());
+      expect(await storage.getAssignmentsByEvent(eventId)).toEqual([]);
+      expect((await shuffle(ring())).round).toBe(2);
+      expect(await storage.getDraw(eventId, 2)).toMatchObject({ round: 2 });
+    });
+
+    it("reveals a draw once", async () => {
+      const committed = await shuffle(ring());
+      const revealed = await storage.markDrawRevealed(committed.id);
+      expect(revealed.revealedAt).toBeInstanceOf(Date);
+      expect((await storage.markDrawRevealed(committed.id)).revealedAt).toEqual(revealed.revealedAt);
+    });
+
+    it("marks a wishlist seen and drops messages with their assignment", async () => {
+      await shuffle(ring());
+      const [assignment] = await storage.getAssignmentsByGiverId(ids[0]);
+      const seenAt = new Date();
+      await storage.markWishlistSeen(assignment.id, seenAt);
+      await storage.createMessage({ assignmentId: assignment.id, fromGiver: true, body: "Hi" });
+      expect((await storage.getMessagesByAssignment(assignment.id)).map((m) => m.body)).toEqual(["Hi"]);
+
+      await storage.resetShuffle(eventId, await version());
+      expect(await storage.getMessagesByAssignment(assignment.id)).toEqual([]);
+    });
+
+    it("repairs the ring when a participant withdraws", async () => {
+      await shuffle(ring());
+      // a → b → c → d → a without b becomes a → c
+      const created = await storage.withdrawParticipant(eventId, 1, ids[1], [
+        { giverId: ids[0], receiverId: ids[2] },
+      ]);
+      expect(created).toHaveLength(1);
+      expect(created[0].reassignedAt).toBeInstanceOf(Date);
+      expect(await storage.getUser(ids[1])).toBeNull();
+
+      const pairs = (await storage.getAssignmentsByEvent(eventId)).map((a) => [a.giverId, a.receiverId]);
+      expect(pairs.sort()).toEqual([[ids[0], ids[2]], [ids[2], ids[3]], [ids[3], ids[0]]].sort());
+      expect(await version()).toBe(2);
+    });
+
+    it("keeps the drawn pairs of a withdrawn participant and archives the repair", async () => {
+      await shuffle(ring());
+      await storage.withdrawParticipant(eventId, 1, ids[1], [{ giverId: ids[0], receiverId: ids[2] }]);
+
+      const drawn = (await storage.getRoundPairs(eventId, 1)).map((h) => [h.giverId, h.receiverId]);
+      expect(drawn.sort()).toEqual(ring().sort());
+
+      const standing = (await storage.getRecentHistory(eventId, 1)).map((h) => [h.giverId, h.receiverId]);
+      expect(standing.sort()).toEqual([[ids[0], ids[2]], [ids[2], ids[3]], [ids[3], ids[0]]].sort());
+    });
+
+    it("keeps history when a participant is deleted", async () => {
+      await shuffle(ring());
+      await storage.deleteUser(ids[1]);
+      expect(await storage.getRoundPairs(eventId, 1)).toHaveLength(4);
+    });
+
+    it("splices a newcomer into a pair", async () => {
+      await shuffle(ring());
+      const eve = await storage.createUser({ username: "eve", password: "hash", eventId });
+      const created = await storage.spliceParticipant(eventId, 1, eve.id, [
+        { giverId: ids[0], receiverId: ids[1] },
+      ]);
+      expect(created.map((a) => [a.giverId, a.receiverId])).toEqual([[eve.id, ids[1]]]);
+
+      const [mine] = await storage.getAssignmentsByGiverId(ids[0]);
+      expect(mine.receiverId).toBe(eve.id);
+      expect(mine.reassignedAt).toBeInstanceOf(Date);
+      await expect(
+        storage.spliceParticipant(eventId, 2, eve.id, [{ giverId: ids[0], receiverId: ids[1] }])
+      ).rejects.toBeInstanceOf(ConflictError);
+    });
+
+    it("archives both halves of a splice in place of the split pair", async () => {
+      await shuffle(ring());
+      const eve = await storage.createUser({ username: "eve", password: "hash", eventId });
+      await storage.spliceParticipant(eventId, 1, eve.id, [{ giverId: ids[0], receiverId: ids[1] }]);
+
+      const drawn = (await storage.getRoundPairs(eventId, 1)).map((h) => [h.giverId, h.receiverId]);
+      expect(drawn.sort()).toEqual(ring().sort());
+
+      const standing = (await storage.getRecentHistory(eventId, 1)).map((h) => [h.giverId, h.receiverId]);
+      expect(standing.sort()).toEqual(
+        [[ids[0], eve.id], [eve.id, ids[1]], [ids[1], ids[2]], [ids[2], ids[3]], [ids[3], ids[0]]].sort()
+      );
+    });
+
+    it("returns the history of the latest kept rounds", async () => {
+      await shuffle(ring());
+      await storage.resetShuffle(eventId, await version(), true);
+      await shuffle(ring());
+      expect(await storage.getRecentHistory(eventId, 1)).toHaveLength(4);
+      expect(await storage.getRecentHistory(eventId, 2)).toHaveLength(8);
+    });
+
+    it("leaves discarded and unrevealed draws out of the history", async () => {
+      await shuffle(ring());
+      await storage.resetShuffle(eventId, await version());
+      expect((await storage.getDraw(eventId, 1))!.discardedAt).toBeInstanceOf(Date);
+      expect(await storage.getRecentHistory(eventId, 5)).toEqual([]);
+
+      // A second reset has no draw of its own to discard
+      await storage.resetShuffle(eventId, await version(), true);
+      expect((await storage.getDraw(eventId, 1))!.discardedAt).toBeInstanceOf(Date);
+
+      const pairs = ring().map(([giverId, receiverId]) => ({ giverId, receiverId }));
+      await storage.commitShuffle(eventId, await version(), draw, pairs);
+      expect(await storage.getRecentHistory(eventId, 5)).toEqual([]);
+    });
+  });
+});
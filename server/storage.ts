@@ -1,27 +1,213 @@
 // server/storage.ts
-import { User, Wishlist, Assignment, AppState } from "@shared/schema";
+import {
+  User,
+  NewUser,
+  SafeUser,
+  WishlistItem,
+  WishlistItemInput,
+  Assignment,
+  Exclusion,
+  NewExclusion,
+  Event,
+  NewEvent,
+  UpdateEvent,
+  HistoryEntry,
+  Draw,
+  NewDraw,
+  UserWithWishlist,
+  AssignmentWithDetails,
+  Message,
+  NewMessage,
+  Profile,
+  WishlistRevision,
+  Invite,
+  NewInvite,
+  PasswordReset,
+  NewPasswordReset,
+  RecoveryCode,
+} from "@shared/schema";
+import { db } from "./pg";
+import { DatabaseStorage } from "./db-storage";
+import { ConflictError } from "./errors";
+import { splicedPairs, type Pair } from "./matcher";
+import { sameWishlist } from "./wishlist-diff";
+
+// Everything the routes and auth layer need from persistence. Both the
+// in-memory and the Postgres backend implement this contract.
+export interface IStorage {
+  // users
+  createUser(user: NewUser): Promise<User>;
+  getUser(id: number): Promise<User | null>;
+  getUserByUsername(username: string): Promise<User | null>;
+  deleteUser(id: number): Promise<void>;
+  getParticipantsByEvent(eventId: number): Promise<UserWithWishlist[]>;
+  moveUnassignedParticipants(eventId: number): Promise<void>;
+  updateUserWishlistStatus(userId: number, completed: boolean): Promise<void>;
+  updateUserPassword(userId: number, passwordHash: string): Promise<void>;
+  // sets a new password and bumps sessionVersion, signing out every session
+  // and dropping any reset token; returns the new version
+  changeUserPassword(userId: number, passwordHash: string): Promise<number>;
+  updateUserGroup(userId: number, group: string | null): Promise<void>;
+
+  // two-factor — the secret is stored unconfirmed until enableTotp, which
+  // also replaces the recovery codes. useTotpStep and useRecoveryCode are
+  // the atomic claims that make each code single-use.
+  setTotpSecret(userId: number, secret: string): Promise<void>;
+  enableTotp(userId: number, step: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableTotp(userId: number): Promise<void>;
+  useTotpStep(userId: number, step: number): Promise<boolean>;
+  replaceRecoveryCodes(userId: number, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  countRecoveryCodes(userId: number): Promise<number>; // unused ones
+  updateUserProfile(userId: number, profile: Profile): Promise<void>;
+
+  // wishlists — items come back in the participant's order
+  getWishlistByUserId(userId: number): Promise<WishlistItem[]>;
+  // also records the saved list as a new revision, unless it is the same
+  // as the latest one
+  replaceWishlist(userId: number, items: WishlistItemInput[]): Promise<WishlistItem[]>;
+  getWishlistRevisions(userId: number): Promise<WishlistRevision[]>; // oldest first
+  // moves old three-slot wishlists into items; returns how many users moved
+  migrateLegacyWishlists(): Promise<number>;
+
+  // events
+  getAllEvents(): Promise<Event[]>;
+  getEvent(id: number): Promise<Event | null>;
+  createEvent(event: NewEvent): Promise<Event>;
+  updateEvent(id: number, changes: UpdateEvent): Promise<Event>;
+  deleteEvent(id: number): Promise<void>;
+
+  // invites — redeemInvite marks the invite used and creates its
+  // participant in one step, throwing ConflictError unless it is pending
+  createInvite(invite: NewInvite): Promise<Invite>;
+  getInvitesByEvent(eventId: number): Promise<Invite[]>;
+  getInviteByTokenHash(tokenHash: string): Promise<Invite | null>;
+  revokeInvite(id: number): Promise<Invite | null>; // null unless it was pending
+  redeemInvite(id: number, user: NewUser): Promise<User>;
+
+  // password resets — issuing replaces the user's previous token; consuming
+  // deletes it and returns it only if it hadn't expired
+  createPasswordReset(reset: NewPasswordReset): Promise<PasswordReset>;
+  consumePasswordReset(tokenHash: string): Promise<PasswordReset | null>;
+
+  // exclusions
+  getExclusionsByEvent(eventId: number): Promise<Exclusion[]>;
+  createExclusion(exclusion: NewExclusion): Promise<Exclusion>;
+  deleteExclusion(id: number): Promise<void>;
+
+  // assignments
+  getAssignmentsByGiverId(giverId: number): Promise<AssignmentWithDetails[]>;
+  getAssignmentsByReceiverId(receiverId: number): Promise<Assignment[]>;
+  getAssignmentsByEvent(eventId: number): Promise<Assignment[]>;
+  markWishlistSeen(assignmentId: number, seenAt: Date): Promise<void>;
+
+  // messages, oldest first; they go with their assignment
+  getMessagesByAssignment(assignmentId: number): Promise<Message[]>;
+  createMessage(message: NewMessage): Promise<Message>;
+
+  // shuffle state — both are all-or-nothing and throw ConflictError unless
+  // the event is still at expectedVersion. commitShuffle replaces the
+  // assignments, records the draw under the next round and archives its
+  // pairs; resetShuffle clears the assignments and, unless keepDraw is
+  // set, marks the current draw discarded so it doesn't count as history.
+  commitShuffle(
+    eventId: number,
+    expectedVersion: number,
+    draw: NewDraw,
+    pairs: Pair[]
+  ): Promise<Draw>;
+  resetShuffle(eventId: number, expectedVersion: number, keepDraw?: boolean): Promise<Event>;
+  // Removes a participant from a shuffled event and adds the repaired
+  // pairs for their givers, leaving every other assignment untouched. Their
+  // archived pairs are marked superseded and the repairs archived too.
+  withdrawParticipant(
+    eventId: number,
+    expectedVersion: number,
+    userId: number,
+    repairs: Pair[]
+  ): Promise<Assignment[]>;
+  // Turns each split A → B into A → new → B, leaving every other
+  // assignment untouched. A split pair's messages are dropped, since
+  // they were written to B. In the archive A → B is marked superseded and
+  // both new pairs are added.
+  spliceParticipant(
+    eventId: number,
+    expectedVersion: number,
+    userId: number,
+    splits: Pair[]
+  ): Promise<Assignment[]>;
+
+  // draws + history
+  getDrawsByEvent(eventId: number): Promise<Draw[]>;
+  getDraw(eventId: number, round: number): Promise<Draw | null>;
+  markDrawRevealed(id: number): Promise<Draw>;
+  getRoundPairs(eventId: number, round: number): Promise<HistoryEntry[]>; // as drawn
+  // the pairs still standing in the latest revealed, undiscarded rounds,
+  // repairs included
+  getRecentHistory(eventId: number, rounds: number): Promise<HistoryEntry[]>;
+}
+
+export function toSafeUser(user: User): SafeUser {
+  const { password: _p, sessionVersion: _v, totpSecret: _s, totpLastStep: _l, ...safe } = user;
+  return safe;
+}
 
 type Database = {
+  events: Event[];
   users: User[];
-  wishlists: Wishlist[];
+  wishlists: WishlistItem[];
+  revisions: WishlistRevision[];
+  invites: Invite[];
+  passwordResets: PasswordReset[];
+  recoveryCodes: RecoveryCode[];
+  exclusions: Exclusion[];
   assignments: Assignment[];
-  appState: AppState;
+  messages: Message[];
+  draws: Draw[];
+  history: HistoryEntry[];
 };
 
-class Storage {
+export class MemStorage implements IStorage {
   private db: Database = {
+    events: [],
     users: [],
     wishlists: [],
+    revisions: [],
+    invites: [],
+    passwordResets: [],
+    recoveryCodes: [],
+    exclusions: [],
     assignments: [],
-    appState: {
-      shuffleCompleted: false,
-    },
+    messages: [],
+    draws: [],
+    history: [],
   };
 
+  private nextId = 1;
+
   // --- USERS ---
-  async createUser(user: User) {
-    this.db.users.push(user);
-    return user;
+  async createUser(user: NewUser) {
+    const created: User = {
+      id: user.id ?? this.nextId++,
+      username: user.username,
+      password: user.password,
+      role: user.role ?? "participant",
+      eventId: user.eventId ?? null,
+      group: user.group ?? null,
+      giftNotes: user.giftNotes ?? null,
+      giftAvoid: user.giftAvoid ?? null,
+      wishlistCompleted: user.wishlistCompleted ?? false,
+      sessionVersion: user.sessionVersion ?? 0,
+      totpSecret: user.totpSecret ?? null,
+      totpEnabledAt: user.totpEnabledAt ?? null,
+      totpLastStep: user.totpLastStep ?? null,
+    };
+    this.db.users.push(created);
+    return created;
+  }
+
+  async getUser(id: number) {
+    return this.db.users.find(u => u.id === id) || null;
   }
 
   async getUserByUsername(username: string) {
@@ -29,46 +215,553 @@ class Storage {
   }
 
   async deleteUser(id: number) {
+    this.removeUser(id);
+  }
+
+  // Mirrors the ON DELETE CASCADE foreign keys of the Postgres schema;
+  // history has none on users, so it stays
+  private removeUser(id: number) {
     this.db.users = this.db.users.filter(u => u.id !== id);
+    this.db.wishlists = this.db.wishlists.filter(w => w.userId !== id);
+    this.db.revisions = this.db.revisions.filter(r => r.userId !== id);
+    this.db.passwordResets = this.db.passwordResets.filter(r => r.userId !== id);
+    this.db.recoveryCodes = this.db.recoveryCodes.filter(c => c.userId !== id);
+    this.db.exclusions = this.db.exclusions.filter(
+      e => e.giverId !== id && e.receiverId !== id
+    );
+    this.dropAssignments(a => a.giverId === id || a.receiverId === id);
   }
 
-  async getAllUsers() {
-    return this.db.users;
+  async getParticipantsByEvent(eventId: number) {
+    return this.db.users
+      .filter(u => u.role === "participant" && u.eventId === eventId)
+      .map(u => ({
+        ...toSafeUser(u),
+        wishlist: this.itemsOf(u.id),
+      }));
   }
 
-  // --- WISHLISTS ---
-  async saveWishlist(wishlist: Wishlist) {
-    const existing = this.db.wishlists.find(w => w.userId === wishlist.userId);
-    if (existing) {
-      Object.assign(existing, wishlist);
-    } else {
-      this.db.wishlists.push(wishlist);
+  async moveUnassignedParticipants(eventId: number) {
+    for (const user of this.db.users) {
+      if (user.role === "participant" && user.eventId === null) {
+        user.eventId = eventId;
+      }
     }
-    return wishlist;
   }
 
-  async getWishlist(userId: number) {
-    return this.db.wishlists.find(w => w.userId === userId) || null;
+  async updateUserWishlistStatus(userId: number, completed: boolean) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (user) user.wishlistCompleted = completed;
+  }
+
+  async updateUserPassword(userId: number, passwordHash: string) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (user) user.password = passwordHash;
+  }
+
+  async changeUserPassword(userId: number, passwordHash: string) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) return 0;
+    user.password = passwordHash;
+    user.sessionVersion++;
+    this.db.passwordResets = this.db.passwordResets.filter(r => r.userId !== userId);
+    return user.sessionVersion;
+  }
+
+  async updateUserGroup(userId: number, group: string | null) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (user) user.group = group;
+  }
+
+  async updateUserProfile(userId: number, profile: Profile) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (user) Object.assign(user, profile);
+  }
+
+  // --- TWO-FACTOR ---
+  async setTotpSecret(userId: number, secret: string) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (user) user.totpSecret = secret;
+  }
+
+  async enableTotp(userId: number, step: number, recoveryCodeHashes: string[]) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) return;
+    user.totpEnabledAt = new Date();
+    user.totpLastStep = step;
+    await this.replaceRecoveryCodes(userId, recoveryCodeHashes);
+  }
+
+  async disableTotp(userId: number) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user) return;
+    user.totpSecret = null;
+    user.totpEnabledAt = null;
+    user.totpLastStep = null;
+    this.db.recoveryCodes = this.db.recoveryCodes.filter(c => c.userId !== userId);
+  }
+
+  async useTotpStep(userId: number, step: number) {
+    const user = this.db.users.find(u => u.id === userId);
+    if (!user || (user.totpLastStep !== null && user.totpLastStep >= step)) return false;
+    user.totpLastStep = step;
+    return true;
+  }
+
+  async replaceRecoveryCodes(userId: number, codeHashes: string[]) {
+    this.db.recoveryCodes = this.db.recoveryCodes
+      .filter(c => c.userId !== userId)
+      .concat(codeHashes.map(codeHash => ({ id: this.nextId++, userId, codeHash, usedAt: null })));
+  }
+
+  async useRecoveryCode(userId: number, codeHash: string) {
+    const code = this.db.recoveryCodes.find(
+      c => c.userId === userId && c.codeHash === codeHash && !c.usedAt
+    );
+    if (code) code.usedAt = new Date();
+    return !!code;
+  }
+
+  async countRecoveryCodes(userId: number) {
+    return this.db.recoveryCodes.filter(c => c.userId === userId && !c.usedAt).length;
+  }
+
+  // --- WISHLISTS ---
+  private itemsOf(userId: number) {
+    return this.db.wishlists
+      .filter(w => w.userId === userId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getWishlistByUserId(userId: number) {
+    return this.itemsOf(userId);
+  }
+
+  async replaceWishlist(userId: number, items: WishlistItemInput[]) {
+    this.db.wishlists = this.db.wishlists.filter(w => w.userId !== userId);
+    const created = items.map((item, position): WishlistItem => ({
+      id: this.nextId++,
+      userId,
+      position,
+      ...item,
+    }));
+    this.db.wishlists.push(...created);
+    const latest = this.db.revisions.filter(r => r.userId === userId).pop();
+    if (!latest || !sameWishlist(latest.items, items))
+      this.db.revisions.push({ id: this.nextId++, userId, items, createdAt: new Date() });
+    return created;
+  }
+
+  async getWishlistRevisions(userId: number) {
+    return this.db.revisions.filter(r => r.userId === userId);
+  }
+
+  // Nothing outlives a restart here, so there is never legacy data
+  async migrateLegacyWishlists() {
+    return 0;
+  }
+
+  // --- EVENTS ---
+  async getAllEvents() {
+    return this.db.events;
+  }
+
+  async getEvent(id: number) {
+    return this.db.events.find(e => e.id === id) || null;
+  }
+
+  async createEvent(event: NewEvent) {
+    const created: Event = {
+      id: this.nextId++,
+      name: event.name,
+      shuffleCompleted: false,
+      avoidRepeatRounds: 1,
+      commitReveal: false,
+      giftsPerPerson: 1,
+      groupPolicy: "any",
+      wishlistMinItems: 1,
+      wishlistMaxItems: 5,
+      budgetCents: null,
+      currency: "USD",
+      version: 0,
+      createdAt: new Date(),
+    };
+    this.db.events.push(created);
+    return created;
+  }
+
+  async updateEvent(id: number, changes: UpdateEvent) {
+    const event = this.db.events.find(e => e.id === id);
+    if (!event) throw new Error(`Event ${id} not found`);
+    Object.assign(event, changes);
+    return event;
+  }
+
+  async deleteEvent(id: number) {
+    const memberIds = this.db.users
+      .filter(u => u.eventId === id)
+      .map(u => u.id);
+    for (const userId of memberIds) await this.deleteUser(userId);
+
+    this.db.exclusions = this.db.exclusions.filter(e => e.eventId !== id);
+    this.db.invites = this.db.invites.filter(i => i.eventId !== id);
+    this.db.draws = this.db.draws.filter(d => d.eventId !== id);
+    this.db.history = this.db.history.filter(h => h.eventId !== id);
+    this.dropAssignments(a => a.eventId === id);
+    this.db.events = this.db.events.filter(e => e.id !== id);
+  }
+
+  // --- INVITES ---
+  async createInvite(invite: NewInvite) {
+    const created: Invite = {
+      id: this.nextId++,
+      eventId: invite.eventId,
+      tokenHash: invite.tokenHash,
+      label: invite.label ?? null,
+      group: invite.group ?? null,
+      expiresAt: invite.expiresAt,
+      usedAt: null,
+      usedByUserId: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.db.invites.push(created);
+    return created;
+  }
+
+  async getInvitesByEvent(eventId: number) {
+    return this.db.invites.filter(i => i.eventId === eventId);
   }
 
-  // --- APP STATE ---
-  async updateAppState(state: Partial<AppState>) {
-    Object.assign(this.db.appState, state);
-    return this.db.appState;
+  async getInviteByTokenHash(tokenHash: string) {
+    return this.db.invites.find(i => i.tokenHash === tokenHash) || null;
   }
 
-  async getAppState() {
-    return this.db.appState;
+  private pendingInvite(id: number) {
+    const invite = this.db.invites.find(i => i.id === id);
+    const pending = invite && !invite.usedAt && !invite.revokedAt && invite.expiresAt > new Date();
+    return pending ? invite : null;
+  }
+
+  async revokeInvite(id: number) {
+    const invite = this.pendingInvite(id);
+    if (invite) invite.revokedAt = new Date();
+    return invite;
+  }
+
+  async redeemInvite(id: number, user: NewUser) {
+    const invite = this.pendingInvite(id);
+    if (!invite) throw new ConflictError("Invite is no longer valid");
+    invite.usedAt = new Date();
+
+    const created = await this.createUser(user);
+    invite.usedByUserId = created.id;
+    return created;
+  }
+
+  // --- PASSWORD RESETS ---
+  async createPasswordReset(reset: NewPasswordReset) {
+    const created: PasswordReset = {
+      id: this.nextId++,
+      userId: reset.userId,
+      tokenHash: reset.tokenHash,
+      expiresAt: reset.expiresAt,
+      createdAt: new Date(),
+    };
+    this.db.passwordResets = this.db.passwordResets
+      .filter(r => r.userId !== reset.userId)
+      .concat(created);
+    return created;
+  }
+
+  async consumePasswordReset(tokenHash: string) {
+    const reset = this.db.passwordResets.find(r => r.tokenHash === tokenHash);
+    if (!reset) return null;
+    this.db.passwordResets = this.db.passwordResets.filter(r => r !== reset);
+    return reset.expiresAt > new Date() ? reset : null;
+  }
+
+  // --- EXCLUSIONS ---
+  async getExclusionsByEvent(eventId: number) {
+    return this.db.exclusions.filter(e => e.eventId === eventId);
+  }
+
+  async createExclusion(exclusion: NewExclusion) {
+    const created: Exclusion = {
+      id: this.nextId++,
+      eventId: exclusion.eventId,
+      giverId: exclusion.giverId,
+      receiverId: exclusion.receiverId,
+      bidirectional: exclusion.bidirectional ?? false,
+    };
+    this.db.exclusions.push(created);
+    return created;
+  }
+
+  async deleteExclusion(id: number) {
+    this.db.exclusions = this.db.exclusions.filter(e => e.id !== id);
   }
 
   // --- ASSIGNMENTS ---
-  async saveAssignments(assignments: Assignment[]) {
-    this.db.assignments = assignments;
+  async getAssignmentsByGiverId(giverId: number) {
+    const result: AssignmentWithDetails[] = [];
+    for (const assignment of this.db.assignments.filter(a => a.giverId === giverId)) {
+      const receiver = await this.getUser(assignment.receiverId);
+      if (!receiver) continue;
+
+      result.push({
+        ...assignment,
+        receiver: {
+          ...toSafeUser(receiver),
+          wishlist: await this.getWishlistByUserId(receiver.id),
+        },
+      });
+    }
+    return result;
+  }
+
+  async getAssignmentsByReceiverId(receiverId: number) {
+    return this.db.assignments.filter(a => a.receiverId === receiverId);
+  }
+
+  async getAssignmentsByEvent(eventId: number) {
+    return this.db.assignments.filter(a => a.eventId === eventId);
+  }
+
+  async markWishlistSeen(assignmentId: number, seenAt: Date) {
+    const assignment = this.db.assignments.find(a => a.id === assignmentId);
+    if (assignment) assignment.wishlistSeenAt = seenAt;
+  }
+
+  // Assignments with their messages, like the cascade in Postgres
+  private dropAssignments(drop: (a: Assignment) => boolean) {
+    const dropped = new Set(this.db.assignments.filter(drop).map(a => a.id));
+    this.db.assignments = this.db.assignments.filter(a => !dropped.has(a.id));
+    this.db.messages = this.db.messages.filter(m => !dropped.has(m.assignmentId));
+  }
+
+  // --- MESSAGES ---
+  async getMessagesByAssignment(assignmentId: number) {
+    return this.db.messages.filter(m => m.assignmentId === assignmentId);
+  }
+
+  async createMessage(message: NewMessage) {
+    const created: Message = {
+      id: this.nextId++,
+      assignmentId: message.assignmentId,
+      fromGiver: message.fromGiver,
+      body: message.body,
+      createdAt: new Date(),
+    };
+    this.db.messages.push(created);
+    return created;
+  }
+
+  // --- SHUFFLE STATE ---
+  // No awaits between the version check and the last write, so concurrent
+  // requests can't interleave.
+  private claimEvent(eventId: number, expectedVersion: number) {
+    const event = this.db.events.find(e => e.id === eventId);
+    if (!event) throw new Error(`Event ${eventId} not found`);
+    if (event.version !== expectedVersion)
+      throw new ConflictError("Event was changed by another request");
+    return event;
+  }
+
+  private claimShuffledEvent(eventId: number, expectedVersion: number) {
+    const event = this.claimEvent(eventId, expectedVersion);
+    if (!event.shuffleCompleted)
+      throw new ConflictError("Event has not been shuffled");
+    return event;
+  }
+
+  async commitShuffle(eventId: number, expectedVersion: number, draw: NewDraw, pairs: Pair[]) {
+    const event = this.claimEvent(eventId, expectedVersion);
+    if (event.shuffleCompleted)
+      throw new ConflictError("Shuffle already completed");
+
+    const round =
+      Math.max(0, ...this.db.draws.filter(d => d.eventId === eventId).map(d => d.round)) + 1;
+    const created: Draw = {
+      id: this.nextId++,
+      eventId,
+      round,
+      seed: draw.seed,
+      commitment: draw.commitment,
+      inputs: draw.inputs,
+      revealedAt: draw.revealedAt ?? null,
+      discardedAt: null,
+      createdAt: new Date(),
+    };
+
+    this.dropAssignments(a => a.eventId === eventId);
+    for (const { giverId, receiverId } of pairs) {
+      this.db.assignments.push({
+        id: this.nextId++,
+        eventId,
+        giverId,
+        receiverId,
+        reassignedAt: null,
+        wishlistSeenAt: null,
+      });
+      this.db.history.push({
+        id: this.nextId++,
+        eventId,
+        round,
+        giverId,
+        receiverId,
+        drawn: true,
+        supersededAt: null,
+        createdAt: created.createdAt,
+      });
+    }
+    this.db.draws.push(created);
+
+    event.shuffleCompleted = true;
+    event.version++;
+    return created;
+  }
+
+  async resetShuffle(eventId: number, expectedVersion: number, keepDraw = false) {
+    const event = this.claimEvent(eventId, expectedVersion);
+    if (event.shuffleCompleted && !keepDraw) {
+      const current = this.db.draws.filter(d => d.eventId === eventId).pop();
+      if (current) current.discardedAt = new Date();
+    }
+    this.dropAssignments(a => a.eventId === eventId);
+    event.shuffleCompleted = false;
+    event.version++;
+    return event;
+  }
+
+  async withdrawParticipant(eventId: number, expectedVersion: number, userId: number, repairs: Pair[]) {
+    const event = this.claimShuffledEvent(eventId, expectedVersion);
+
+    const created: Assignment[] = repairs.map(({ giverId, receiverId }) => ({
+      id: this.nextId++,
+      eventId,
+      giverId,
+      receiverId,
+      reassignedAt: new Date(),
+      wishlistSeenAt: null,
+    }));
+    this.removeUser(userId);
+    this.db.assignments.push(...created);
+    this.archiveRepair(eventId, h => h.giverId === userId || h.receiverId === userId, repairs);
+
+    event.version++;
+    return created;
   }
 
-  async getAssignmentForUser(userId: number) {
-    return this.db.assignments.find(a => a.giverId === userId) || null;
+  // Marks the current round's matching pairs superseded and archives the
+  // pairs that replaced them
+  private archiveRepair(eventId: number, replaced: (h: HistoryEntry) => boolean, added: Pair[]) {
+    const round = Math.max(0, ...this.db.draws.filter(d => d.eventId === eventId).map(d => d.round));
+    const now = new Date();
+    for (const h of this.db.history) {
+      if (h.eventId === eventId && h.round === round && !h.supersededAt && replaced(h))
+        h.supersededAt = now;
+    }
+    for (const { giverId, receiverId } of added) {
+      this.db.history.push({
+        id: this.nextId++,
+        eventId,
+        round,
+        giverId,
+        receiverId,
+        drawn: false,
+        supersededAt: null,
+        createdAt: now,
+      });
+    }
+  }
+
+  async spliceParticipant(eventId: number, expectedVersion: number, userId: number, splits: Pair[]) {
+    const event = this.claimShuffledEvent(eventId, expectedVersion);
+
+    const split = splits.map(({ giverId, receiverId }) => {
+      const existing = this.db.assignments.find(
+        a => a.eventId === eventId && a.giverId === giverId && a.receiverId === receiverId
+      );
+      if (!existing) throw new ConflictError("Assignment to split no longer exists");
+      return existing;
+    });
+
+    const created: Assignment[] = [];
+    for (const existing of split) {
+      created.push({
+        id: this.nextId++,
+        eventId,
+        giverId: userId,
+        receiverId: existing.receiverId,
+        reassignedAt: null,
+        wishlistSeenAt: null,
+      });
+      existing.receiverId = userId;
+      existing.reassignedAt = new Date();
+      existing.wishlistSeenAt = null;
+      this.db.messages = this.db.messages.filter(m => m.assignmentId !== existing.id);
+    }
+    this.db.assignments.push(...created);
+    this.archiveRepair(
+      eventId,
+      h => splits.some(p => p.giverId === h.giverId && p.receiverId === h.receiverId),
+      splicedPairs(splits, userId)
+    );
+
+    event.version++;
+    return created;
+  }
+
+  // --- DRAWS + HISTORY ---
+  async getDrawsByEvent(eventId: number) {
+    return this.db.draws.filter(d => d.eventId === eventId);
+  }
+
+  async getDraw(eventId: number, round: number) {
+    return this.db.draws.find(d => d.eventId === eventId && d.round === round) || null;
+  }
+
+  async markDrawRevealed(id: number) {
+    const draw = this.db.draws.find(d => d.id === id);
+    if (!draw) throw new Error(`Draw ${id} not found`);
+    draw.revealedAt ??= new Date();
+    return draw;
+  }
+
+  async getRoundPairs(eventId: number, round: number) {
+    return this.db.history.filter(h => h.eventId === eventId && h.round === round && h.drawn);
+  }
+
+  async getRecentHistory(eventId: number, rounds: number) {
+    const counted = new Set(
+      this.db.draws
+        .filter(d => d.eventId === eventId && d.revealedAt && !d.discardedAt)
+        .map(d => d.round)
+        .sort((a, b) => b - a)
+        .slice(0, rounds)
+    );
+    return this.db.history.filter(
+      h => h.eventId === eventId && counted.has(h.round) && !h.supersededAt
+    );
+  }
+}
+
+// STORAGE_BACKEND=memory forces the in-memory store (handy for local dev);
+// otherwise Postgres is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const backend =
+    process.env.STORAGE_BACKEND ?? (db ? "postgres" : "memory");
+
+  if (backend === "memory") return new MemStorage();
+
+  if (backend !== "postgres") {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}"`);
+  }
+  if (!db) {
+    throw new Error("STORAGE_BACKEND=postgres requires DATABASE_URL");
   }
+  return new DatabaseStorage(db);
 }
 
-export const storage = new Storage();
+export const storage = createStorage();
@@ -0,0 +1,14 @@
+// server/tokens.ts
+//
+// Single-use link tokens (invites, password resets) are 32 random bytes
+// handed out once; the database only ever holds their SHA-256, so a leaked
+// table can't be used to redeem them.
+import { createHash, randomBytes } from "node:crypto";
+
+export function generateToken() {
+  return randomBytes(32).toString("base64url");
+}
+
+export function hashToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  normalizeRecoveryCode,
+  RECOVERY_CODE_COUNT,
+  totpStep,
+  totpUri,
+  verifyTotp,
+} from "./totp";
+
+// RFC 6238 appendix B: the SHA-1 seed "12345678901234567890" in base32,
+// with the 8-digit codes cut to the 6 digits we use
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const RFC_VECTORS: [number, string][] = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+describe("verifyTotp", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 code at %i s", (seconds, code) => {
+    const now = seconds * 1000;
+    expect(verifyTotp(RFC_SECRET, code, now)).toBe(totpStep(now));
+  });
+
+  it("accepts one step of clock drift either way", () => {
+    const now = 1111111109 * 1000;
+    const step = totpStep(now);
+    expect(verifyTotp(RFC_SECRET, "081804", now + 30_000)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, "081804", now - 30_000)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, "081804", now + 60_000)).toBeNull();
+  });
+
+  it("ignores spaces and rejects malformed codes", () => {
+    expect(verifyTotp(RFC_SECRET, "287 082", 59_000)).toBe(1);
+    expect(verifyTotp(RFC_SECRET, "28708", 59_000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "2870820", 59_000)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, "000000", 59_000)).toBeNull();
+  });
+});
+
+describe("generateTotpSecret", () => {
+  it("makes 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+});
+
+describe("totpUri", () => {
+  it("builds an otpauth URI for authenticator apps", () => {
+    expect(totpUri(RFC_SECRET, "admin")).toBe(
+      `otpauth://totp/Secret%20Santa%3Aadmin?secret=${RFC_SECRET}` +
+        "&issuer=Secret%20Santa&algorithm=SHA1&digits=6&period=30"
+    );
+  });
+});
+
+describe("recovery codes", () => {
+  it("generates distinct codes in the readable alphabet", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(RECOVERY_CODE_COUNT);
+    for (const code of codes) expect(code).toMatch(/^[a-hjkmnp-z2-9]{4}-[a-hjkmnp-z2-9]{4}$/);
+  });
+
+  it("normalizes case, spaces and dashes", () => {
+    expect(normalizeRecoveryCode(" K7MQ-3xhp ")).toBe("k7mq3xhp");
+    expect(normalizeRecoveryCode("k7mq 3xhp")).toBe("k7mq3xhp");
+  });
+});
@@ -0,0 +1,109 @@
+// server/totp.ts
+//
+// RFC 6238 time-based one-time passwords (HMAC-SHA1, 6 digits, 30 second
+// steps), the variant every authenticator app supports. Secrets are
+// base32, as the otpauth:// provisioning URI expects.
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "node:crypto";
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted, for clock drift
+const DRIFT_STEPS = 1;
+
+const BASE32 = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+function base32Encode(bytes: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32[(value << (5 - bits)) & 31];
+  return out;
+}
+
+function base32Decode(text: string) {
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  const chars = text.replace(/=+$/, "").toUpperCase();
+  for (let i = 0; i < chars.length; i++) {
+    const index = BASE32.indexOf(chars[i]);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+// 160 bits, the HMAC-SHA1 block the RFC recommends
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+export function totpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+// RFC 4226 HOTP: dynamic truncation of HMAC(secret, counter)
+function hotp(secret: string, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+// The step the code belongs to, or null if it matches none in the window.
+// Callers record the step so the same code can't be replayed.
+export function verifyTotp(secret: string, code: string, now = Date.now()) {
+  const given = Buffer.from(code.replace(/\s/g, ""));
+  if (given.length !== DIGITS) return null;
+
+  const current = totpStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (timingSafeEqual(given, Buffer.from(hotp(secret, step)))) return step;
+  }
+  return null;
+}
+
+// What authenticator apps scan from the QR code
+export function totpUri(secret: string, account: string, issuer = "Secret Santa") {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  // Percent-encoded by hand: some apps show URLSearchParams' "+" literally
+  const params = [
+    `secret=${secret}`,
+    `issuer=${encodeURIComponent(issuer)}`,
+    "algorithm=SHA1",
+    `digits=${DIGITS}`,
+    `period=${STEP_SECONDS}`,
+  ].join("&");
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// Ten single-use codes like "k7mq-3xhp", for when the authenticator is lost.
+// The alphabet leaves out characters that are easy to misread.
+const RECOVERY_ALPHABET = "abcdefghjkmnpqrstuvwxyz23456789";
+export const RECOVERY_CODE_COUNT = 10;
+
+export function generateRecoveryCodes() {
+  const part = () =>
+    Array.from({ length: 4 }, () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)]).join("");
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => `${part()}-${part()}`);
+}
+
+// Case, spaces and the dash don't matter when a code is typed back in
+export function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[\s-]/g, "");
+}
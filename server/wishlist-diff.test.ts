@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import type { WishlistItemInput, WishlistRevision } from "@shared/schema";
+import { changesSince, diffWishlists } from "./wishlist-diff";
+
+const item = (title: string, changes: Partial<WishlistItemInput> = {}): WishlistItemInput => ({
+  title,
+  url: null,
+  priceCents: null,
+  priority: 3,
+  notes: null,
+  ...changes,
+});
+
+const revision = (items: WishlistItemInput[], createdAt: string): WishlistRevision => ({
+  id: 0,
+  userId: 1,
+  items,
+  createdAt: new Date(createdAt),
+});
+
+describe("diffWishlists", () => {
+  it("reports added, removed and changed items", () => {
+    const diff = diffWishlists(
+      [item("Socks"), item("Book", { priceCents: 1500 })],
+      [item("Book", { priceCents: 2000 }), item("Scarf")]
+    );
+    expect(diff).toEqual({
+      added: [item("Scarf")],
+      removed: [item("Socks")],
+      changed: [{ before: item("Book", { priceCents: 1500 }), after: item("Book", { priceCents: 2000 }) }],
+    });
+  });
+
+  it("ignores reordering", () => {
+    const diff = diffWishlists([item("Socks"), item("Book")], [item("Book"), item("Socks")]);
+    expect(diff).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it("pairs titles case-insensitively but reports the new spelling", () => {
+    const diff = diffWishlists([item("lego set")], [item("LEGO set")]);
+    expect(diff.changed).toEqual([{ before: item("lego set"), after: item("LEGO set") }]);
+  });
+
+  it("pairs duplicate titles in order", () => {
+    const diff = diffWishlists(
+      [item("Mug", { notes: "red" }), item("Mug", { notes: "blue" })],
+      [item("Mug", { notes: "red" })]
+    );
+    expect(diff).toEqual({ added: [], removed: [item("Mug", { notes: "blue" })], changed: [] });
+  });
+});
+
+describe("changesSince", () => {
+  const revisions = [
+    revision([item("Socks")], "2024-12-01T10:00:00Z"),
+    revision([item("Socks"), item("Book")], "2024-12-02T10:00:00Z"),
+  ];
+
+  it("compares the latest list with the one the giver last saw", () => {
+    expect(changesSince(revisions, new Date("2024-12-01T12:00:00Z"))).toEqual({
+      changedAt: revisions[1].createdAt,
+      added: [item("Book")],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  it("treats a list saved before anything was seen as new", () => {
+    expect(changesSince(revisions, new Date("2024-11-30T00:00:00Z"))?.added).toEqual([
+      item("Socks"),
+      item("Book"),
+    ]);
+  });
+
+  it("has nothing to report before the first look or after the last change", () => {
+    expect(changesSince(revisions, null)).toBeNull();
+    expect(changesSince(revisions, new Date("2024-12-03T00:00:00Z"))).toBeNull();
+    expect(changesSince([], new Date())).toBeNull();
+  });
+
+  it("ignores saves that changed nothing", () => {
+    const resaved = [...revisions, revision([item("Book"), item("Socks")], "2024-12-04T10:00:00Z")];
+    expect(changesSince(resaved, new Date("2024-12-03T00:00:00Z"))).toBeNull();
+  });
+});
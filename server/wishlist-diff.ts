@@ -0,0 +1,56 @@
+// server/wishlist-diff.ts
+//
+// What a Santa should be told about their recipient's wishlist edits.
+// Items have no identity across saves (every save replaces the list), so
+// they are paired up by title, case-insensitively; same-titled duplicates
+// pair in order.
+import type { WishlistChanges, WishlistItemInput, WishlistRevision } from "@shared/schema";
+
+const key = (item: WishlistItemInput) => item.title.trim().toLowerCase();
+
+const sameDetails = (a: WishlistItemInput, b: WishlistItemInput) =>
+  a.title === b.title &&
+  a.url === b.url &&
+  a.priceCents === b.priceCents &&
+  a.priority === b.priority &&
+  a.notes === b.notes;
+
+// Same items in the same order; a re-save of this is not a new revision
+export const sameWishlist = (a: WishlistItemInput[], b: WishlistItemInput[]) =>
+  a.length === b.length && a.every((item, i) => sameDetails(item, b[i]));
+
+export function diffWishlists(
+  before: WishlistItemInput[],
+  after: WishlistItemInput[]
+): Omit<WishlistChanges, "changedAt"> {
+  const unmatched = [...before];
+  const added: WishlistItemInput[] = [];
+  const changed: WishlistChanges["changed"] = [];
+
+  for (const item of after) {
+    const index = unmatched.findIndex((old) => key(old) === key(item));
+    if (index === -1) {
+      added.push(item);
+      continue;
+    }
+    const [old] = unmatched.splice(index, 1);
+    if (!sameDetails(old, item)) changed.push({ before: old, after: item });
+  }
+
+  return { added, removed: unmatched, changed };
+}
+
+// Changes since seenAt, or null if there are none to report. A giver who
+// has never looked has nothing to compare against.
+export function changesSince(
+  revisions: WishlistRevision[],
+  seenAt: Date | null
+): WishlistChanges | null {
+  const latest = revisions[revisions.length - 1];
+  if (!seenAt || !latest || latest.createdAt <= seenAt) return null;
+
+  const seen = revisions.filter((r) => r.createdAt <= seenAt).pop();
+  const diff = diffWishlists(seen?.items ?? [], latest.items);
+  if (!diff.added.length && !diff.removed.length && !diff.changed.length) return null;
+  return { changedAt: latest.createdAt, ...diff };
+}
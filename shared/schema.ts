@@ -1,20 +1,65 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, integer, serial, json, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, integer, serial, json, timestamp, index } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// Who may draw whom by group: anyone, only their own group, or only others
+export const GROUP_POLICIES = ["any", "same", "different"] as const;
+export type GroupPolicy = (typeof GROUP_POLICIES)[number];
+
+// Upper bound for any money amount, in minor units
+export const MAX_MONEY_MINOR = 100_000_000;
+
+// Events table - each row is an independent gift exchange
+export const events = pgTable("events", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  shuffleCompleted: boolean("shuffle_completed").notNull().default(false),
+  avoidRepeatRounds: integer("avoid_repeat_rounds").notNull().default(1), // 0 disables
+  commitReveal: boolean("commit_reveal").notNull().default(false), // publish a hash before revealing
+  giftsPerPerson: integer("gifts_per_person").notNull().default(1), // k: everyone gives and receives k gifts
+  groupPolicy: text("group_policy", { enum: GROUP_POLICIES }).notNull().default("any"),
+  wishlistMinItems: integer("wishlist_min_items").notNull().default(1), // needed to count as complete
+  wishlistMaxItems: integer("wishlist_max_items").notNull().default(5),
+  budgetCents: integer("budget_cents"), // per gift, in minor units of currency; null for no limit
+  currency: text("currency").notNull().default("USD"), // ISO 4217 code
+  version: integer("version").notNull().default(0), // bumped by every shuffle/reset
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
 // Users table - supports both admin and participants
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   role: text("role").notNull().default("participant"), // "admin" or "participant"
+  eventId: integer("event_id").references(() => events.id, { onDelete: "cascade" }), // null for admins
+  group: text("group_name"), // team or department, for the event's group policy
   wishlistCompleted: boolean("wishlist_completed").notNull().default(false),
+  giftNotes: text("gift_notes"), // sizes, tastes, anything for their Santa
+  giftAvoid: text("gift_avoid"), // allergies, dislikes, things they already own
+  sessionVersion: integer("session_version").notNull().default(0), // bumped to sign out every session
+  totpSecret: text("totp_secret"), // base32; set during enrollment, before it is confirmed
+  totpEnabledAt: timestamp("totp_enabled_at", { withTimezone: true }), // null until a code confirms it
+  totpLastStep: integer("totp_last_step"), // newest time step used, so codes can't be replayed
 });
 
-// Wishlist items table
-export const wishlistItems = pgTable("wishlist_items", {
+// Wishlist items table - one row per gift idea, in the participant's order
+export const wishlistItems = pgTable("wishlist_entries", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(), // 0-based display order
+  title: text("title").notNull(),
+  url: text("url"),
+  priceCents: integer("price_cents"), // estimate in minor units of the event's currency
+  priority: integer("priority").notNull().default(3), // 1 = most wanted … 5 = nice to have
+  notes: text("notes"),
+}, (table) => [index("IDX_wishlist_entries_user").on(table.userId)]);
+
+// The old fixed three-slot wishlists. Only read by migrateLegacyWishlists(),
+// which moves each row into wishlist_entries on startup.
+export const legacyWishlists = pgTable("wishlist_items", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   item1: text("item_1"),
@@ -22,32 +67,124 @@ export const wishlistItems = pgTable("wishlist_items", {
   item3: text("item_3"),
 });
 
+// A snapshot of a wishlist after every save, so a Santa can be shown
+// what changed since they last looked
+export const wishlistRevisions = pgTable("wishlist_revisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  items: json("items").$type<WishlistItemInput[]>().notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("IDX_wishlist_revisions_user").on(table.userId)]);
+
 // Secret Santa assignments table
 export const assignments = pgTable("assignments", {
   id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
   giverId: integer("giver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   receiverId: integer("receiver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  reassignedAt: timestamp("reassigned_at", { withTimezone: true }), // set when a repair changed this giver's recipient
+  wishlistSeenAt: timestamp("wishlist_seen_at", { withTimezone: true }), // when the giver last looked at the recipient's wishlist
 });
 
-// App state table to track if shuffle has happened
-export const appState = pgTable("app_state", {
+// One row per committed draw: the seed and matcher inputs make it
+// reproducible, the commitment lets participants check it wasn't swapped.
+export const draws = pgTable("draws", {
   id: serial("id").primaryKey(),
-  shuffleCompleted: boolean("shuffle_completed").notNull().default(false),
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  round: integer("round").notNull(), // 1-based, per event
+  seed: text("seed").notNull(), // 32 random bytes, hex
+  commitment: text("commitment").notNull(), // sha256(seed | sorted pairs), hex
+  inputs: json("inputs").$type<DrawInputs>().notNull(),
+  revealedAt: timestamp("revealed_at", { withTimezone: true }),
+  discardedAt: timestamp("discarded_at", { withTimezone: true }), // reset without keeping it as a past round
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Archived pairings of every committed draw, one row per pair. Pairs that
+// a later repair replaced are kept and marked, so the draw as made can
+// still be verified. The user ids are deliberately not foreign keys: a
+// participant who leaves must not take the record of the draw with them.
+export const assignmentHistory = pgTable("assignment_history", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  round: integer("round").notNull(), // 1-based, per event
+  giverId: integer("giver_id").notNull(),
+  receiverId: integer("receiver_id").notNull(),
+  drawn: boolean("drawn").notNull().default(true), // false for pairs a repair added after the draw
+  supersededAt: timestamp("superseded_at", { withTimezone: true }), // set when a repair replaced the pair
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Pairwise "must not give to" rules, scoped to an event
+export const exclusions = pgTable("exclusions", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  giverId: integer("giver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  receiverId: integer("receiver_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  bidirectional: boolean("bidirectional").notNull().default(false), // also blocks receiver → giver
+});
+
+// Anonymous notes between a giver and their recipient. Only the direction
+// is stored; the giver is never named in a thread.
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  assignmentId: integer("assignment_id").notNull().references(() => assignments.id, { onDelete: "cascade" }),
+  fromGiver: boolean("from_giver").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [index("IDX_messages_assignment").on(table.assignmentId)]);
+
+// Single-use links that let someone join an event and pick their own
+// credentials. Only a hash of the token is kept; the link is shown once.
+export const invites = pgTable("invites", {
+  id: serial("id").primaryKey(),
+  eventId: integer("event_id").notNull().references(() => events.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token, hex
+  label: text("label"), // who the admin meant it for
+  group: text("group_name"), // applied to the participant it creates
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  usedByUserId: integer("used_by_user_id").references(() => users.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// One-time password reset tokens issued by an admin; at most one per user
+export const passwordResets = pgTable("password_resets", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 of the token, hex
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
 });
 
+// Single-use two-factor recovery codes; replaced as a set on enrollment
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(), // sha256 of the normalized code, hex
+  usedAt: timestamp("used_at", { withTimezone: true }),
+}, (table) => [index("IDX_recovery_codes_user").on(table.userId)]);
+
 // Session table for express-session + connect-pg-simple
 export const session = pgTable("session", {
   sid: text("sid").primaryKey(),
   sess: json("sess").notNull(),
   expire: timestamp("expire", { withTimezone: true }).notNull(),
-});
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
 
 // Relations
-export const usersRelations = relations(users, ({ one }) => ({
-  wishlist: one(wishlistItems, {
-    fields: [users.id],
-    references: [wishlistItems.userId],
+export const eventsRelations = relations(events, ({ many }) => ({
+  participants: many(users),
+  assignments: many(assignments),
+}));
+
+export const usersRelations = relations(users, ({ one, many }) => ({
+  event: one(events, {
+    fields: [users.eventId],
+    references: [events.id],
   }),
+  wishlist: many(wishlistItems),
   givenAssignment: one(assignments, {
     fields: [users.id],
     references: [assignments.giverId],
@@ -62,6 +199,10 @@ export const wishlistItemsRelations = relations(wishlistItems, ({ one }) => ({
 }));
 
 export const assignmentsRelations = relations(assignments, ({ one }) => ({
+  event: one(events, {
+    fields: [assignments.eventId],
+    references: [events.id],
+  }),
   giver: one(users, {
     fields: [assignments.giverId],
     references: [users.id],
@@ -75,35 +216,228 @@ export const assignmentsRelations = relations(assignments, ({ one }) => ({
 }));
 
 // Insert schemas
+// Blank means "no group"
+export const participantGroupSchema = z
+  .string()
+  .trim()
+  .max(50, "Group name is too long")
+  .nullish()
+  .transform((group) => group || null);
+
+export const insertEventSchema = createInsertSchema(events, {
+  name: (schema) => schema.trim().min(1, "Event name is required"),
+}).pick({
+  name: true,
+});
+
+export const updateEventSchema = createInsertSchema(events, {
+  name: (schema) => schema.trim().min(1, "Event name is required"),
+  avoidRepeatRounds: (schema) => schema.int().min(0).max(10),
+  giftsPerPerson: (schema) => schema.int().min(1).max(5),
+  wishlistMinItems: (schema) => schema.int().min(0).max(50),
+  wishlistMaxItems: (schema) => schema.int().min(1).max(50),
+  budgetCents: (schema) => schema.int().min(0, "Budget can't be negative").max(MAX_MONEY_MINOR, "Budget is too large"),
+  currency: (schema) =>
+    schema
+      .trim()
+      .toUpperCase()
+      .refine((code) => Intl.supportedValuesOf("currency").includes(code), "Unknown ISO 4217 currency code"),
+})
+  .pick({
+    name: true,
+    avoidRepeatRounds: true,
+    commitReveal: true,
+    giftsPerPerson: true,
+    groupPolicy: true,
+    wishlistMinItems: true,
+    wishlistMaxItems: true,
+    budgetCents: true,
+    currency: true,
+  })
+  .partial();
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
   // note: role intentionally excluded to prevent client-side role assignment
 });
 
-export const insertWishlistSchema = createInsertSchema(wishlistItems).pick({
-  userId: true,
-  item1: true,
-  item2: true,
-  item3: true,
+// Optional text: trimmed, with blank meaning "not set"
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullish().transform((value) => value || null);
+
+export const wishlistItemSchema = z.object({
+  title: z.string().trim().min(1, "Every gift idea needs a title").max(200),
+  url: optionalText(2000).refine(
+    (url) => url === null || /^https?:\/\/\S+$/i.test(url),
+    "Links must start with http:// or https://"
+  ),
+  priceCents: z
+    .number()
+    .int()
+    .min(0, "Price can't be negative")
+    .max(MAX_MONEY_MINOR, "Price is too large")
+    .nullish()
+    .transform((v) => v ?? null),
+  priority: z.number().int().min(1).max(5).default(3),
+  notes: optionalText(1000),
 });
 
+// The whole list is replaced on every save; order is the array order
 export const updateWishlistSchema = z.object({
-  item1: z.string().optional(),
-  item2: z.string().optional(),
-  item3: z.string().optional(),
+  items: z.array(wishlistItemSchema).max(50),
+});
+
+// What a participant tells their Santa besides the wishlist itself
+export const updateProfileSchema = z.object({
+  giftNotes: optionalText(1000),
+  giftAvoid: optionalText(500),
+});
+
+export const createInviteSchema = z.object({
+  label: optionalText(100),
+  group: participantGroupSchema,
+  expiresInDays: z.number().int().min(1).max(30).default(7),
 });
 
+const newPasswordSchema = z.string().min(4, "Password must be at least 4 characters");
+
+export const redeemInviteSchema = z.object({
+  username: z.string().trim().min(3, "Name must be at least 3 characters").max(50, "Name is too long"),
+  password: newPasswordSchema,
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  newPassword: newPasswordSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  password: newPasswordSchema,
+});
+
+// Either the authenticator's 6 digits or a recovery code
+export const totpCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter a code").max(20),
+});
+
+export const disableTotpSchema = totpCodeSchema.extend({
+  password: z.string().min(1, "Enter your password"),
+});
+
+export const sendMessageSchema = z.object({
+  body: z.string().trim().min(1, "Message can't be empty").max(2000, "Message is too long"),
+});
+
+export const insertExclusionSchema = createInsertSchema(exclusions)
+  .pick({
+    giverId: true,
+    receiverId: true,
+    bidirectional: true,
+  })
+  .refine((e) => e.giverId !== e.receiverId, {
+    message: "A participant cannot be excluded from themselves",
+  });
+
 // Types
+export type Event = typeof events.$inferSelect;
+export type NewEvent = z.infer<typeof insertEventSchema>;
+export type UpdateEvent = z.infer<typeof updateEventSchema>;
+export type HistoryEntry = typeof assignmentHistory.$inferSelect;
+export type Draw = typeof draws.$inferSelect;
+export type NewDraw = Omit<typeof draws.$inferInsert, "round">;
+
+// Everything the matcher saw, in the order it saw it
+export type DrawInputs = {
+  participantIds: number[];
+  exclusions: { giverId: number; receiverId: number; bidirectional: boolean }[];
+  history: { round: number; giverId: number; receiverId: number }[];
+  gifts?: number; // absent on draws from before gifts per person, meaning 1
+  groupPolicy?: GroupPolicy; // absent means "any"
+  groups?: Record<number, string>; // participant id → group, grouped participants only
+};
+
+// What participants may see about a draw: never the seed or the pairs
+export type DrawSummary = Pick<Draw, "round" | "commitment" | "revealedAt" | "discardedAt" | "createdAt">;
+export type EventWithDraws = Event & { draws: DrawSummary[] };
+
+// What the admin's audit sees: the seed and inputs would reproduce the
+// pairs, so they stay sealed until the draw is revealed
+export type DrawAudit = Omit<Draw, "seed" | "inputs"> & {
+  seed: string | null;
+  inputs: DrawInputs | null;
+};
+
+// Result of a shuffle dry run; deliberately contains no pairings
+export type ShufflePreview = {
+  ready: boolean;
+  issues: string[];
+  feasible: boolean;
+  reason?: string;
+  gifts: number;
+  cycles: number[]; // only for one gift each; empty otherwise
+  constraints: {
+    exclusions: number;
+    groupPolicy: GroupPolicy;
+    historyRounds: number;
+    relaxed: string[];
+  };
+};
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
-export type InsertWishlist = z.infer<typeof insertWishlistSchema>;
-export type Wishlist = typeof wishlistItems.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+export type WishlistItem = typeof wishlistItems.$inferSelect;
+export type WishlistItemInput = z.infer<typeof wishlistItemSchema>;
+export type UpdateWishlist = z.infer<typeof updateWishlistSchema>;
+export type Profile = z.infer<typeof updateProfileSchema>;
+export type WishlistRevision = typeof wishlistRevisions.$inferSelect;
+export type Exclusion = typeof exclusions.$inferSelect;
+export type NewExclusion = typeof exclusions.$inferInsert;
 export type Assignment = typeof assignments.$inferSelect;
-export type AppState = typeof appState.$inferSelect;
+export type NewAssignment = typeof assignments.$inferInsert;
+export type Invite = typeof invites.$inferSelect;
+export type NewInvite = Omit<typeof invites.$inferInsert, "id" | "createdAt">;
+export type InviteStatus = "pending" | "used" | "expired" | "revoked";
+// What the admin sees; the token hash never leaves the server
+export type InviteSummary = Omit<Invite, "tokenHash"> & { status: InviteStatus };
+// What the join page sees before the invite is redeemed
+export type InvitePreview = { eventName: string; label: string | null; status: InviteStatus };
+export type PasswordReset = typeof passwordResets.$inferSelect;
+export type NewPasswordReset = Omit<typeof passwordResets.$inferInsert, "id" | "createdAt">;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
+export type TotpStatus = { enabled: boolean; recoveryCodesLeft: number };
+export type TotpSetup = { secret: string; uri: string };
+// POST /api/login answers with this instead of the user when a code is due
+export type LoginChallenge = { totpRequired: true };
+// A throttled account, or an IP over its sign-in attempt limit
+export type LockoutSummary = {
+  kind: "account" | "ip";
+  key: string; // username or IP address
+  failures: number;
+  lockedUntil: Date | null;
+};
+export type Message = typeof messages.$inferSelect;
+export type NewMessage = Omit<typeof messages.$inferInsert, "id" | "createdAt">;
+
+// A message as one side of the thread sees it
+export type ThreadMessage = Pick<Message, "id" | "body" | "createdAt"> & { fromMe: boolean };
+// The recipient's view of a thread: which of their Santas, never who
+export type SantaThread = { santa: number; messages: ThreadMessage[] };
+
+// Extended types for frontend use (passwords, two-factor secrets and
+// session bookkeeping never leave the server)
+export type SafeUser = Omit<User, "password" | "sessionVersion" | "totpSecret" | "totpLastStep">;
+export type UserWithWishlist = SafeUser & { wishlist: WishlistItem[] };
+export type AssignmentWithDetails = Assignment & {
+  receiver: UserWithWishlist;
+};
 
-// Extended types for frontend use
-export type UserWithWishlist = User & { wishlist: Wishlist | null };
-export type AssignmentWithDetails = Assignment & { 
-  receiver: User & { wishlist: Wishlist | null } 
+// What changed in a recipient's wishlist since their Santa last looked.
+// Items are matched by title; a reorder alone isn't a change.
+export type WishlistChanges = {
+  changedAt: Date;
+  added: WishlistItemInput[];
+  removed: WishlistItemInput[];
+  changed: { before: WishlistItemInput; after: WishlistItemInput }[];
 };
+export type AssignmentView = AssignmentWithDetails & { wishlistChanges: WishlistChanges | null };